@@ -5,28 +5,106 @@ const fs = require('fs/promises');
 
 // Import type definitions
 import type { IpcMainInvokeEvent } from 'electron';
-import { scanPdfDirectory, processBomEntry, processBomEntries } from './utils/pdf-service';
-import { parseBomCsv } from './utils/bom-parser';
+import { matchBomToPdfs } from './utils/pdf-service';
+import type { BomMatchResult, MatchOptions } from './utils/pdf-service';
+import {
+  parseBomFile,
+  listWorkbookSheets,
+  previewBomFile,
+  suggestColumnMapping,
+  columnMappingToOptions,
+  consolidateBomEntries
+} from './utils/bom-parser';
+import type { ColumnMapping, BomRowIssue } from './utils/bom-parser';
+import {
+  listMappingProfiles,
+  saveMappingProfile,
+  deleteMappingProfile,
+  findMappingProfileForHeaders,
+  applyMappingProfile
+} from './utils/mapping-profiles';
+import {
+  getManufacturerAliases,
+  saveManufacturerAliases,
+  resetManufacturerAliases,
+  getVariantSuffixes,
+  saveVariantSuffixes,
+  resetVariantSuffixes,
+  getLibrarySettings,
+  saveLibrarySettings,
+  getFilenameRules,
+  saveFilenameRules,
+  getFamilySheets,
+  saveFamilySheets,
+  getManufacturerPatterns,
+  saveManufacturerPatterns,
+  resetManufacturerPatterns,
+  getSupersessions,
+  saveSupersessions,
+  getKits,
+  saveKits,
+  getCoverLayout,
+  saveCoverLayout,
+  getPageStampSettings,
+  savePageStampSettings
+} from './utils/settings-store';
+import type { LibrarySettings } from './utils/settings-store';
+import type { ManufacturerAliasTable } from './utils/manufacturer-aliases';
+import type { VariantSuffixTable } from './utils/match-scoring';
+import type { ManufacturerPattern } from './utils/manufacturer-inference';
+import { mergeSupersessions, readSupersessionCsv } from './utils/supersessions';
+import type { Supersession } from './utils/supersessions';
+import type { KitDefinition } from './utils/kits';
+import { hasProjectMetadata } from './utils/cover-sheet';
+import type { CoverSheetLayout, ProjectMetadata } from './utils/cover-sheet';
+import type { PageStampSettings } from './utils/page-stamp';
+import { filePatternForPart } from './utils/filename-rules';
+import type { FilenameRule } from './utils/filename-rules';
+import type { FamilySheet } from './utils/family-sheets';
+import {
+  getLibraryFiles,
+  rebuildLibraryIndex,
+  getLibraryIndexStatus,
+  closeLibraryIndex
+} from './utils/library-index';
+import type { LibraryIndexOptions } from './utils/library-index';
+import {
+  getLearnedMatches,
+  getLearnedMatchTable,
+  saveLearnedMatch,
+  deleteLearnedMatch
+} from './utils/learned-matches';
 import { mergePdfs } from './utils/pdf-merger';
+import type { MergeOptions, ProductInfo } from './utils/pdf-merger';
+
+// How the BOM file should be read: worksheet, header row and column mapping
+interface BomReadOptions {
+  sheetName?: string;
+  headerRowIndex?: number;
+  mapping?: ColumnMapping;
+  /** Combine lines with the same manufacturer and part number */
+  consolidateDuplicates?: boolean;
+}
 
 // Add session type definition
 interface SessionData {
   pdfDirectory: string;
   csvFilePath: string;
+  bomSheetName?: string;
+  bomHeaderRowIndex?: number;
+  columnMapping?: ColumnMapping;
+  bomIssues?: BomRowIssue[];
+  bomIssuesAcknowledged?: boolean;
+  consolidateDuplicates?: boolean;
   outputDirectory?: string;
+  projectMetadata?: ProjectMetadata;
   results?: {
     total: number;
     matched: number;
+    ambiguous?: number;
     notFound: number;
   };
-  detailedResults?: Array<{
-    manufacturer: string;
-    partNumber: string;
-    matched: boolean;
-    pdfPath?: string;
-    fileName?: string;
-    overridden?: boolean;
-  }>;
+  detailedResults?: Array<BomMatchResult & { overridden?: boolean }>;
   createdAt: string;
   updatedAt: string;
 }
@@ -84,10 +162,10 @@ function registerIpcHandlers() {
     return shell.openPath(filePath);
   });
 
-  ipcMain.handle('file:select', async () => {
+  ipcMain.handle('file:select', async (_event: IpcMainInvokeEvent, fileTypeFilter?: string) => {
     const { canceled, filePaths } = await dialog.showOpenDialog({
       properties: ['openFile'],
-      filters: [{ name: 'All Files', extensions: ['*'] }]
+      filters: buildFileFilters(fileTypeFilter)
     });
 
     if (canceled || filePaths.length === 0) {
@@ -98,21 +176,9 @@ function registerIpcHandlers() {
   });
 
   ipcMain.handle('files:select', async (_event: IpcMainInvokeEvent, fileTypeFilter?: string) => {
-    let filters = [];
-
-    if (fileTypeFilter) {
-      const extension = fileTypeFilter.startsWith('.') ? fileTypeFilter.slice(1) : fileTypeFilter;
-      filters = [
-        { name: `${extension.toUpperCase()} Files`, extensions: [extension] },
-        { name: 'All Files', extensions: ['*'] }
-      ];
-    } else {
-      filters = [{ name: 'All Files', extensions: ['*'] }];
-    }
-
     const { canceled, filePaths } = await dialog.showOpenDialog({
       properties: ['openFile', 'multiSelections'],
-      filters
+      filters: buildFileFilters(fileTypeFilter)
     });
 
     if (canceled || filePaths.length === 0) {
@@ -144,11 +210,58 @@ function registerIpcHandlers() {
   });
 
   // PDF/BOM operations
+  ipcMain.handle('bom:list-sheets', handleListBomSheets);
+  ipcMain.handle('bom:preview', handlePreviewBom);
   ipcMain.handle('bom:process', handleProcessBom);
   ipcMain.handle('pdfs:scan', handleScanPdfs);
   ipcMain.handle('pdf:find-match', handleFindPdfMatch);
   ipcMain.handle('pdf:merge', handleMergePdfs);
 
+  // Column mapping profiles
+  ipcMain.handle('mapping-profiles:list', async () => listMappingProfiles());
+  ipcMain.handle('mapping-profiles:save', handleSaveMappingProfile);
+  ipcMain.handle('mapping-profiles:delete', async (_event: IpcMainInvokeEvent, name: string) => {
+    return deleteMappingProfile(name);
+  });
+
+  // Matching settings
+  ipcMain.handle('manufacturer-aliases:get', async () => getManufacturerAliases());
+  ipcMain.handle('manufacturer-aliases:save', handleSaveManufacturerAliases);
+  ipcMain.handle('manufacturer-aliases:reset', async () => resetManufacturerAliases());
+  ipcMain.handle('variant-suffixes:get', async () => getVariantSuffixes());
+  ipcMain.handle('variant-suffixes:save', handleSaveVariantSuffixes);
+  ipcMain.handle('variant-suffixes:reset', async () => resetVariantSuffixes());
+  ipcMain.handle('manufacturer-patterns:get', async () => getManufacturerPatterns());
+  ipcMain.handle('manufacturer-patterns:save', handleSaveManufacturerPatterns);
+  ipcMain.handle('manufacturer-patterns:reset', async () => resetManufacturerPatterns());
+  ipcMain.handle('library-settings:get', async () => getLibrarySettings());
+  ipcMain.handle('library-index:status', async (_event: IpcMainInvokeEvent, pdfDirectory: string) => {
+    return getLibraryIndexStatus(getLibraryRoots(pdfDirectory));
+  });
+  ipcMain.handle('library-index:rebuild', handleRebuildLibraryIndex);
+  ipcMain.handle('library-settings:save', async (_event: IpcMainInvokeEvent, settings: LibrarySettings) => {
+    return saveLibrarySettings(settings);
+  });
+  ipcMain.handle('filename-rules:get', async () => getFilenameRules());
+  ipcMain.handle('filename-rules:save', handleSaveFilenameRules);
+  ipcMain.handle('filename-rules:test', handleTestFilenameRule);
+  ipcMain.handle('family-sheets:get', async () => getFamilySheets());
+  ipcMain.handle('family-sheets:save', handleSaveFamilySheets);
+  ipcMain.handle('supersessions:get', async () => getSupersessions());
+  ipcMain.handle('supersessions:save', handleSaveSupersessions);
+  ipcMain.handle('supersessions:import', handleImportSupersessions);
+  ipcMain.handle('kits:get', async () => getKits());
+  ipcMain.handle('kits:save', handleSaveKits);
+  ipcMain.handle('cover-layout:get', async () => getCoverLayout());
+  ipcMain.handle('cover-layout:save', handleSaveCoverLayout);
+  ipcMain.handle('page-stamp:get', async () => getPageStampSettings());
+  ipcMain.handle('page-stamp:save', handleSavePageStamp);
+  ipcMain.handle('learned-matches:list', async () => getLearnedMatches());
+  ipcMain.handle('learned-matches:save', handleSaveLearnedMatch);
+  ipcMain.handle('learned-matches:delete', async (_event: IpcMainInvokeEvent, key: string) => {
+    return deleteLearnedMatch(key);
+  });
+
   // Session management
   ipcMain.handle('session:save', handleSaveSession);
   ipcMain.handle('session:load', handleLoadSession);
@@ -159,6 +272,61 @@ function registerIpcHandlers() {
   });
 }
 
+/**
+ * Collects the saved matching settings passed to the PDF matcher
+ */
+function getMatchOptions(): MatchOptions {
+  const { contentMatching, staleAfterYears } = getLibrarySettings();
+  const manufacturerAliases = getManufacturerAliases();
+
+  return {
+    manufacturerAliases,
+    variantSuffixes: getVariantSuffixes(),
+    contentMatching,
+    staleAfterYears,
+    learnedMatches: getLearnedMatchTable(manufacturerAliases),
+    filenameRules: getFilenameRules(),
+    familySheets: getFamilySheets(),
+    supersessions: getSupersessions(),
+    kits: getKits()
+  };
+}
+
+/**
+ * Lists the folders to search: the session's PDF directory followed by the configured library roots
+ */
+function getLibraryRoots(pdfDirectory: string): string[] {
+  return [...new Set([pdfDirectory, ...getLibrarySettings().roots].filter(Boolean))];
+}
+
+/**
+ * Collects the saved depth limit, ignore patterns and text extraction setting for library scans
+ */
+function getScanOptions(): LibraryIndexOptions {
+  const { maxDepth, ignorePatterns, contentMatching, contentPages } = getLibrarySettings();
+  return { maxDepth, ignorePatterns, contentPages: contentMatching ? contentPages : 0 };
+}
+
+/**
+ * Builds open-dialog filters from an extension filter such as ".csv" or ".csv,.xlsx,.xls"
+ */
+function buildFileFilters(fileTypeFilter?: string) {
+  if (!fileTypeFilter) {
+    return [{ name: 'All Files', extensions: ['*'] }];
+  }
+
+  const extensions = fileTypeFilter
+    .split(',')
+    .map(ext => ext.trim())
+    .filter(Boolean)
+    .map(ext => (ext.startsWith('.') ? ext.slice(1) : ext));
+
+  return [
+    { name: `${extensions.map(ext => ext.toUpperCase()).join('/')} Files`, extensions },
+    { name: 'All Files', extensions: ['*'] }
+  ];
+}
+
 app.whenReady().then(createWindow);
 
 app.on('window-all-closed', () => {
@@ -167,6 +335,10 @@ app.on('window-all-closed', () => {
   }
 });
 
+app.on('will-quit', () => {
+  closeLibraryIndex();
+});
+
 app.on('activate', () => {
   if (BrowserWindow.getAllWindows().length === 0) {
     createWindow();
@@ -186,7 +358,8 @@ async function handleScanPdfs(_event: IpcMainInvokeEvent, pdfDirectory: string)
       };
     }
 
-    const pdfFiles = await scanPdfDirectory(pdfDirectory);
+    const { files } = await getLibraryFiles(getLibraryRoots(pdfDirectory), getScanOptions());
+    const pdfFiles = files.map(({ pdfPath, fileName, root, relativePath }) => ({ pdfPath, fileName, root, relativePath }));
 
     return {
       success: true,
@@ -219,7 +392,8 @@ async function handleFindPdfMatch(
       };
     }
 
-    const result = await processBomEntry(pdfDirectory, manufacturer, partNumber);
+    const { files, tokenIndex } = await getLibraryFiles(getLibraryRoots(pdfDirectory), getScanOptions());
+    const result = matchBomToPdfs([{ manufacturer, partNumber }], files, undefined, getMatchOptions(), tokenIndex).results[0];
 
     return {
       success: true,
@@ -235,9 +409,398 @@ async function handleFindPdfMatch(
 }
 
 /**
- * Handles processing a BOM CSV file
+ * Handles listing the worksheets of an Excel BOM so the user can pick one
  */
-async function handleProcessBom(_event: IpcMainInvokeEvent, csvFilePath: string, pdfDirectory: string) {
+async function handleListBomSheets(_event: IpcMainInvokeEvent, filePath: string) {
+  try {
+    if (!filePath) {
+      return {
+        success: false,
+        error: 'No file provided'
+      };
+    }
+
+    const sheets = await listWorkbookSheets(filePath);
+
+    return {
+      success: true,
+      sheets
+    };
+  } catch (error) {
+    console.error('Error listing BOM sheets:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles reading the headers and first rows of a BOM for the column mapping step,
+ * along with a suggested mapping and the saved profile that fits the headers, if any
+ */
+async function handlePreviewBom(_event: IpcMainInvokeEvent, filePath: string, bomOptions: BomReadOptions = {}) {
+  try {
+    if (!filePath) {
+      return {
+        success: false,
+        error: 'No file provided'
+      };
+    }
+
+    const preview = await previewBomFile(filePath, {
+      sheetName: bomOptions.sheetName,
+      headerRowIndex: bomOptions.headerRowIndex
+    });
+
+    const profile = findMappingProfileForHeaders(preview.headers);
+
+    return {
+      success: true,
+      preview,
+      suggestedMapping: profile
+        ? applyMappingProfile(profile, preview.headers)
+        : suggestColumnMapping(preview.headers),
+      profileName: profile?.name
+    };
+  } catch (error) {
+    console.error('Error previewing BOM:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles saving the edited manufacturer alias table
+ */
+async function handleSaveManufacturerAliases(_event: IpcMainInvokeEvent, table: ManufacturerAliasTable) {
+  try {
+    const aliases = saveManufacturerAliases(table);
+
+    return {
+      success: true,
+      aliases
+    };
+  } catch (error) {
+    console.error('Error saving manufacturer aliases:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles rebuilding the cut sheet library index from scratch
+ */
+async function handleRebuildLibraryIndex(_event: IpcMainInvokeEvent, pdfDirectory: string) {
+  try {
+    const status = await rebuildLibraryIndex(getLibraryRoots(pdfDirectory), getScanOptions());
+
+    return {
+      success: true,
+      status
+    };
+  } catch (error) {
+    console.error('Error rebuilding library index:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles saving the edited variant suffix patterns
+ */
+async function handleSaveVariantSuffixes(_event: IpcMainInvokeEvent, table: VariantSuffixTable) {
+  try {
+    const suffixes = saveVariantSuffixes(table);
+
+    return {
+      success: true,
+      suffixes
+    };
+  } catch (error) {
+    console.error('Error saving variant suffixes:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles saving the edited manufacturer patterns
+ */
+async function handleSaveManufacturerPatterns(_event: IpcMainInvokeEvent, rows: ManufacturerPattern[]) {
+  try {
+    const patterns = saveManufacturerPatterns(rows);
+
+    return {
+      success: true,
+      patterns
+    };
+  } catch (error) {
+    console.error('Error saving manufacturer patterns:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles saving the filename rules
+ */
+async function handleSaveFilenameRules(_event: IpcMainInvokeEvent, rules: FilenameRule[]) {
+  try {
+    const savedRules = saveFilenameRules(rules);
+
+    return {
+      success: true,
+      rules: savedRules
+    };
+  } catch (error) {
+    console.error('Error saving filename rules:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles trying a filename rule against the library for a sample part number
+ */
+async function handleTestFilenameRule(
+  _event: IpcMainInvokeEvent,
+  rule: FilenameRule,
+  partNumber: string,
+  pdfDirectory: string
+) {
+  try {
+    const filePattern = filePatternForPart(rule, partNumber);
+
+    // The part number is outside the rule, so it would fall through to generic matching
+    if (!filePattern) {
+      return {
+        success: true,
+        covered: false,
+        files: []
+      };
+    }
+
+    const { files } = await getLibraryFiles(getLibraryRoots(pdfDirectory), getScanOptions());
+    const hits = files.filter(file => filePattern.test(file.fileName));
+
+    return {
+      success: true,
+      covered: true,
+      files: hits.map(({ pdfPath, fileName, root }) => ({ pdfPath, fileName, root }))
+    };
+  } catch (error) {
+    console.error('Error testing filename rule:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles saving the family sheets and the part patterns they cover
+ */
+async function handleSaveFamilySheets(_event: IpcMainInvokeEvent, sheets: FamilySheet[]) {
+  try {
+    const savedSheets = saveFamilySheets(sheets);
+
+    return {
+      success: true,
+      sheets: savedSheets
+    };
+  } catch (error) {
+    console.error('Error saving family sheets:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles saving the edited cross-reference table of superseded parts
+ */
+async function handleSaveSupersessions(_event: IpcMainInvokeEvent, table: Supersession[]) {
+  try {
+    const supersessions = saveSupersessions(table);
+
+    return {
+      success: true,
+      supersessions
+    };
+  } catch (error) {
+    console.error('Error saving superseded parts:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles importing superseded parts from a CSV file into the cross-reference table
+ */
+async function handleImportSupersessions(_event: IpcMainInvokeEvent, filePath: string) {
+  try {
+    const { supersessions: imported, skippedLines } = await readSupersessionCsv(filePath);
+    const supersessions = saveSupersessions(
+      mergeSupersessions(getSupersessions(), imported, getManufacturerAliases())
+    );
+
+    return {
+      success: true,
+      supersessions,
+      imported: imported.length,
+      skippedLines
+    };
+  } catch (error) {
+    console.error('Error importing superseded parts:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles saving the edited kit definitions
+ */
+async function handleSaveKits(_event: IpcMainInvokeEvent, kits: KitDefinition[]) {
+  try {
+    const savedKits = saveKits(kits);
+
+    return {
+      success: true,
+      kits: savedKits
+    };
+  } catch (error) {
+    console.error('Error saving kits:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles saving the edited cover sheet layout
+ */
+async function handleSaveCoverLayout(_event: IpcMainInvokeEvent, layout: CoverSheetLayout) {
+  try {
+    const savedLayout = saveCoverLayout(layout);
+
+    return {
+      success: true,
+      layout: savedLayout
+    };
+  } catch (error) {
+    console.error('Error saving cover layout:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles saving the edited page stamp settings
+ */
+async function handleSavePageStamp(_event: IpcMainInvokeEvent, settings: PageStampSettings) {
+  try {
+    const savedSettings = savePageStampSettings(settings);
+
+    return {
+      success: true,
+      settings: savedSettings
+    };
+  } catch (error) {
+    console.error('Error saving page stamp settings:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles remembering a manually chosen PDF for later jobs
+ */
+async function handleSaveLearnedMatch(
+  _event: IpcMainInvokeEvent,
+  manufacturer: string,
+  partNumber: string,
+  pdfPath: string
+) {
+  try {
+    const learnedMatch = saveLearnedMatch(manufacturer, partNumber, pdfPath, getManufacturerAliases());
+
+    return {
+      success: true,
+      learnedMatch
+    };
+  } catch (error) {
+    console.error('Error saving learned match:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles saving a named column mapping profile
+ */
+async function handleSaveMappingProfile(
+  _event: IpcMainInvokeEvent,
+  name: string,
+  mapping: ColumnMapping,
+  headers: string[]
+) {
+  try {
+    if (!name || !name.trim()) {
+      return {
+        success: false,
+        error: 'Profile name is required'
+      };
+    }
+
+    const profile = saveMappingProfile(name, mapping, headers);
+
+    return {
+      success: true,
+      profile
+    };
+  } catch (error) {
+    console.error('Error saving mapping profile:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Handles processing a BOM file (CSV or Excel workbook)
+ */
+async function handleProcessBom(
+  _event: IpcMainInvokeEvent,
+  csvFilePath: string,
+  pdfDirectory: string,
+  bomOptions: BomReadOptions = {}
+) {
   try {
     if (!csvFilePath || !pdfDirectory) {
       return {
@@ -246,30 +809,39 @@ async function handleProcessBom(_event: IpcMainInvokeEvent, csvFilePath: string,
       };
     }
 
-    // Parse CSV file using the BOM parser
-    const entries = await parseBomCsv(csvFilePath, {
-      // Try multiple common column names for manufacturer and part number
-      manufacturerField: ['manufacturer', 'brand', 'vendor'],
-      partNumberField: ['part_number', 'partnumber', 'part number', 'part no', 'model'],
-      hasHeaderRow: true
+    // Parse the BOM file (CSV or workbook) using the BOM parser
+    const { entries, issues, detected } = await parseBomFile(csvFilePath, {
+      // Use the mapped columns, trying common column names for anything left unmapped
+      ...columnMappingToOptions(bomOptions.mapping),
+      hasHeaderRow: true,
+      sheetName: bomOptions.sheetName,
+      headerRowIndex: bomOptions.headerRowIndex,
+      // Fill in blank manufacturers from part number prefixes
+      manufacturerPatterns: getManufacturerPatterns()
     });
 
     if (entries.length === 0) {
       return {
         success: false,
-        error: 'No valid entries found in the CSV file'
+        error: 'No valid entries found in the BOM file',
+        issues,
+        detected
       };
     }
 
-    // Process BOM entries against PDF directory
-    const results = await processBomEntries(pdfDirectory, entries);
+    // Match BOM entries against the indexed PDF directory and library folders
+    const bomEntries = bomOptions.consolidateDuplicates ? consolidateBomEntries(entries) : entries;
+    const { files, tokenIndex } = await getLibraryFiles(getLibraryRoots(pdfDirectory), getScanOptions());
+    const results = matchBomToPdfs(bomEntries, files, undefined, getMatchOptions(), tokenIndex);
 
     return {
       success: true,
-      ...results
+      ...results,
+      issues,
+      detected
     };
   } catch (error) {
-    console.error('Error processing BOM CSV:', error);
+    console.error('Error processing BOM file:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : String(error)
@@ -280,7 +852,13 @@ async function handleProcessBom(_event: IpcMainInvokeEvent, csvFilePath: string,
 /**
  * Handles merging multiple PDF files into a single PDF
  */
-async function handleMergePdfs(_event: IpcMainInvokeEvent, pdfPaths: string[], productInfo?: Array<{ manufacturer: string; partNumber: string; fileName?: string }>, outputDirectory?: string) {
+async function handleMergePdfs(
+  _event: IpcMainInvokeEvent,
+  pdfPaths: Array<string | string[]>,
+  productInfo?: ProductInfo[],
+  outputDirectory?: string,
+  project?: ProjectMetadata
+) {
   try {
     if (!pdfPaths || pdfPaths.length === 0) {
       return {
@@ -289,6 +867,20 @@ async function handleMergePdfs(_event: IpcMainInvokeEvent, pdfPaths: string[], p
       };
     }
 
+    // A cover sheet is only added once some project details are filled in
+    const options: MergeOptions = project && hasProjectMetadata(project)
+      ? { cover: { metadata: project, layout: getCoverLayout() } }
+      : {};
+
+    const pageStamp = getPageStampSettings();
+    if (pageStamp.enabled) {
+      options.stamp = {
+        settings: pageStamp,
+        projectName: project?.projectName,
+        submittalNumber: project?.submittalNumber
+      };
+    }
+
     // Generate a filename with current date
     const dateStr = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
     const outputFileName = `Submittal-${dateStr}.pdf`;
@@ -296,7 +888,7 @@ async function handleMergePdfs(_event: IpcMainInvokeEvent, pdfPaths: string[], p
     // If user has pre-selected an output directory in the UI, use that
     if (outputDirectory) {
       // Merge PDFs
-      const outputPath = await mergePdfs(pdfPaths, outputFileName, outputDirectory, productInfo);
+      const outputPath = await mergePdfs(pdfPaths, outputFileName, outputDirectory, productInfo, options);
 
       // Attempt to open the PDF after creation
       shell.openPath(outputPath);
@@ -316,7 +908,7 @@ async function handleMergePdfs(_event: IpcMainInvokeEvent, pdfPaths: string[], p
 
     if (canceled || filePaths.length === 0) {
       // User canceled the dialog, use default directory
-      const outputPath = await mergePdfs(pdfPaths, outputFileName, undefined, productInfo);
+      const outputPath = await mergePdfs(pdfPaths, outputFileName, undefined, productInfo, options);
 
       // Attempt to open the PDF after creation
       shell.openPath(outputPath);
@@ -328,7 +920,7 @@ async function handleMergePdfs(_event: IpcMainInvokeEvent, pdfPaths: string[], p
     } else {
       // User selected a directory
       const selectedDirectory = filePaths[0];
-      const outputPath = await mergePdfs(pdfPaths, outputFileName, selectedDirectory, productInfo);
+      const outputPath = await mergePdfs(pdfPaths, outputFileName, selectedDirectory, productInfo, options);
 
       // Attempt to open the PDF after creation
       shell.openPath(outputPath);
@@ -445,7 +1037,18 @@ async function handleLoadSession(_event: IpcMainInvokeEvent) {
     // If there are detailed results, verify that the PDF paths still exist
     if (sessionData.detailedResults) {
       const verifiedResults = await Promise.all(
-        sessionData.detailedResults.map(async (result) => {
+        sessionData.detailedResults.map(async (loaded) => {
+          // Attached documents that moved are kept but marked, so the merge can ask for them
+          const result = loaded.attachments
+            ? {
+                ...loaded,
+                attachments: await Promise.all(loaded.attachments.map(async document => ({
+                  ...document,
+                  missing: (await fileExists(document.pdfPath)) ? undefined : true
+                })))
+              }
+            : loaded;
+
           if (result.pdfPath) {
             const exists = await fileExists(result.pdfPath);
             if (!exists) {
@@ -467,8 +1070,10 @@ async function handleLoadSession(_event: IpcMainInvokeEvent) {
       // Recalculate summary
       if (sessionData.results) {
         const matched = verifiedResults.filter(r => r.matched).length;
+        const ambiguous = verifiedResults.filter(r => r.ambiguous).length;
         sessionData.results.matched = matched;
-        sessionData.results.notFound = sessionData.results.total - matched;
+        sessionData.results.ambiguous = ambiguous;
+        sessionData.results.notFound = sessionData.results.total - matched - ambiguous;
       }
     }
 
@@ -1,4 +1,19 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type { ColumnMapping, BomRowIssue, BomDetection } from './utils/bom-parser';
+import type { BomMatchResult, MatchSummary } from './utils/pdf-service';
+import type { ProductInfo } from './utils/pdf-merger';
+import type { ManufacturerAliasTable } from './utils/manufacturer-aliases';
+import type { VariantSuffixTable } from './utils/match-scoring';
+import type { LibrarySettings } from './utils/settings-store';
+import type { LibraryIndexStatus } from './utils/library-index';
+import type { LearnedMatch } from './utils/learned-matches';
+import type { FilenameRule } from './utils/filename-rules';
+import type { FamilySheet } from './utils/family-sheets';
+import type { ManufacturerPattern } from './utils/manufacturer-inference';
+import type { Supersession } from './utils/supersessions';
+import type { KitDefinition } from './utils/kits';
+import type { CoverSheetLayout, ProjectMetadata } from './utils/cover-sheet';
+import type { PageStampSettings } from './utils/page-stamp';
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
@@ -18,6 +33,8 @@ contextBridge.exposeInMainWorld('electron', {
     pdfFiles?: Array<{
       pdfPath: string;
       fileName: string;
+      root: string;
+      relativePath: string;
     }>;
     directory?: string;
     error?: string;
@@ -37,60 +54,255 @@ contextBridge.exposeInMainWorld('electron', {
     error?: string;
   }> => ipcRenderer.invoke('pdf:find-match', pdfDirectory, manufacturer, partNumber),
 
-  processBom: (
-    csvFilePath: string,
-    pdfDirectory: string
+  listBomSheets: (
+    filePath: string
   ): Promise<{
     success: boolean;
-    results?: Array<{
-      manufacturer: string;
-      partNumber: string;
-      matched: boolean;
-      pdfPath?: string;
-      fileName?: string;
+    sheets?: Array<{
+      name: string;
+      rowCount: number;
+      preview: string[][];
     }>;
-    summary?: {
-      total: number;
-      matched: number;
-      notFound: number;
+    error?: string;
+  }> => ipcRenderer.invoke('bom:list-sheets', filePath),
+
+  previewBom: (
+    filePath: string,
+    bomOptions?: {
+      sheetName?: string;
+      headerRowIndex?: number;
+    }
+  ): Promise<{
+    success: boolean;
+    preview?: {
+      headers: string[];
+      rows: string[][];
+      totalRows: number;
+      detected: BomDetection;
     };
+    suggestedMapping?: ColumnMapping;
+    profileName?: string;
+    error?: string;
+  }> => ipcRenderer.invoke('bom:preview', filePath, bomOptions),
+
+  processBom: (
+    csvFilePath: string,
+    pdfDirectory: string,
+    bomOptions?: {
+      sheetName?: string;
+      headerRowIndex?: number;
+      mapping?: ColumnMapping;
+      consolidateDuplicates?: boolean;
+    }
+  ): Promise<{
+    success: boolean;
+    results?: BomMatchResult[];
+    summary?: MatchSummary;
+    issues?: BomRowIssue[];
+    detected?: BomDetection;
     error?: string;
-  }> => ipcRenderer.invoke('bom:process', csvFilePath, pdfDirectory),
+  }> => ipcRenderer.invoke('bom:process', csvFilePath, pdfDirectory, bomOptions),
 
   // PDF merging operation
   createMergedPdf: (
-    pdfPaths: string[],
-    productInfo?: Array<{
-      manufacturer: string;
-      partNumber: string;
-      fileName?: string;
-    }>,
-    outputDirectory?: string
+    pdfPaths: Array<string | string[]>,
+    productInfo?: ProductInfo[],
+    outputDirectory?: string,
+    project?: ProjectMetadata
   ): Promise<{
     success: boolean;
     outputPath?: string;
     error?: string;
-  }> => ipcRenderer.invoke('pdf:merge', pdfPaths, productInfo, outputDirectory),
+  }> => ipcRenderer.invoke('pdf:merge', pdfPaths, productInfo, outputDirectory, project),
+
+  // Column mapping profiles
+  listMappingProfiles: (): Promise<Array<{
+    name: string;
+    mapping: ColumnMapping;
+    headers: string[];
+    updatedAt: string;
+  }>> => ipcRenderer.invoke('mapping-profiles:list'),
+
+  saveMappingProfile: (
+    name: string,
+    mapping: ColumnMapping,
+    headers: string[]
+  ): Promise<{
+    success: boolean;
+    error?: string;
+  }> => ipcRenderer.invoke('mapping-profiles:save', name, mapping, headers),
+
+  deleteMappingProfile: (name: string): Promise<boolean> => ipcRenderer.invoke('mapping-profiles:delete', name),
+
+  // Matching settings
+  getManufacturerAliases: (): Promise<ManufacturerAliasTable> => ipcRenderer.invoke('manufacturer-aliases:get'),
+
+  saveManufacturerAliases: (
+    aliases: ManufacturerAliasTable
+  ): Promise<{
+    success: boolean;
+    aliases?: ManufacturerAliasTable;
+    error?: string;
+  }> => ipcRenderer.invoke('manufacturer-aliases:save', aliases),
+
+  resetManufacturerAliases: (): Promise<ManufacturerAliasTable> => ipcRenderer.invoke('manufacturer-aliases:reset'),
+
+  getVariantSuffixes: (): Promise<VariantSuffixTable> => ipcRenderer.invoke('variant-suffixes:get'),
+
+  saveVariantSuffixes: (
+    suffixes: VariantSuffixTable
+  ): Promise<{
+    success: boolean;
+    suffixes?: VariantSuffixTable;
+    error?: string;
+  }> => ipcRenderer.invoke('variant-suffixes:save', suffixes),
+
+  resetVariantSuffixes: (): Promise<VariantSuffixTable> => ipcRenderer.invoke('variant-suffixes:reset'),
+
+  getManufacturerPatterns: (): Promise<ManufacturerPattern[]> => ipcRenderer.invoke('manufacturer-patterns:get'),
+
+  saveManufacturerPatterns: (
+    patterns: ManufacturerPattern[]
+  ): Promise<{
+    success: boolean;
+    patterns?: ManufacturerPattern[];
+    error?: string;
+  }> => ipcRenderer.invoke('manufacturer-patterns:save', patterns),
+
+  resetManufacturerPatterns: (): Promise<ManufacturerPattern[]> => ipcRenderer.invoke('manufacturer-patterns:reset'),
+
+  getLibrarySettings: (): Promise<LibrarySettings> => ipcRenderer.invoke('library-settings:get'),
+
+  saveLibrarySettings: (settings: LibrarySettings): Promise<LibrarySettings> =>
+    ipcRenderer.invoke('library-settings:save', settings),
+
+  getLibraryIndexStatus: (pdfDirectory: string): Promise<LibraryIndexStatus> =>
+    ipcRenderer.invoke('library-index:status', pdfDirectory),
+
+  rebuildLibraryIndex: (
+    pdfDirectory: string
+  ): Promise<{
+    success: boolean;
+    status?: LibraryIndexStatus;
+    error?: string;
+  }> => ipcRenderer.invoke('library-index:rebuild', pdfDirectory),
+
+  getFilenameRules: (): Promise<FilenameRule[]> => ipcRenderer.invoke('filename-rules:get'),
+
+  saveFilenameRules: (
+    rules: FilenameRule[]
+  ): Promise<{
+    success: boolean;
+    rules?: FilenameRule[];
+    error?: string;
+  }> => ipcRenderer.invoke('filename-rules:save', rules),
+
+  testFilenameRule: (
+    rule: FilenameRule,
+    partNumber: string,
+    pdfDirectory: string
+  ): Promise<{
+    success: boolean;
+    // Whether the part number is covered by the rule at all
+    covered?: boolean;
+    files?: Array<{ pdfPath: string; fileName: string; root: string }>;
+    error?: string;
+  }> => ipcRenderer.invoke('filename-rules:test', rule, partNumber, pdfDirectory),
+
+  getFamilySheets: (): Promise<FamilySheet[]> => ipcRenderer.invoke('family-sheets:get'),
+
+  saveFamilySheets: (
+    sheets: FamilySheet[]
+  ): Promise<{
+    success: boolean;
+    sheets?: FamilySheet[];
+    error?: string;
+  }> => ipcRenderer.invoke('family-sheets:save', sheets),
+
+  getSupersessions: (): Promise<Supersession[]> => ipcRenderer.invoke('supersessions:get'),
+
+  saveSupersessions: (
+    supersessions: Supersession[]
+  ): Promise<{
+    success: boolean;
+    supersessions?: Supersession[];
+    error?: string;
+  }> => ipcRenderer.invoke('supersessions:save', supersessions),
+
+  importSupersessions: (
+    filePath: string
+  ): Promise<{
+    success: boolean;
+    supersessions?: Supersession[];
+    imported?: number;
+    skippedLines?: number[];
+    error?: string;
+  }> => ipcRenderer.invoke('supersessions:import', filePath),
+
+  getKits: (): Promise<KitDefinition[]> => ipcRenderer.invoke('kits:get'),
+
+  saveKits: (
+    kits: KitDefinition[]
+  ): Promise<{
+    success: boolean;
+    kits?: KitDefinition[];
+    error?: string;
+  }> => ipcRenderer.invoke('kits:save', kits),
+
+  getCoverLayout: (): Promise<CoverSheetLayout> => ipcRenderer.invoke('cover-layout:get'),
+
+  saveCoverLayout: (
+    layout: CoverSheetLayout
+  ): Promise<{
+    success: boolean;
+    layout?: CoverSheetLayout;
+    error?: string;
+  }> => ipcRenderer.invoke('cover-layout:save', layout),
+
+  getPageStampSettings: (): Promise<PageStampSettings> => ipcRenderer.invoke('page-stamp:get'),
+
+  savePageStampSettings: (
+    settings: PageStampSettings
+  ): Promise<{
+    success: boolean;
+    settings?: PageStampSettings;
+    error?: string;
+  }> => ipcRenderer.invoke('page-stamp:save', settings),
+
+  getLearnedMatches: (): Promise<LearnedMatch[]> => ipcRenderer.invoke('learned-matches:list'),
+
+  saveLearnedMatch: (
+    manufacturer: string,
+    partNumber: string,
+    pdfPath: string
+  ): Promise<{
+    success: boolean;
+    learnedMatch?: LearnedMatch;
+    error?: string;
+  }> => ipcRenderer.invoke('learned-matches:save', manufacturer, partNumber, pdfPath),
+
+  deleteLearnedMatch: (key: string): Promise<boolean> => ipcRenderer.invoke('learned-matches:delete', key),
 
   // Session management
   saveSession: (
     sessionData: {
       pdfDirectory: string;
       csvFilePath: string;
+      bomSheetName?: string;
+      bomHeaderRowIndex?: number;
+      columnMapping?: ColumnMapping;
+      bomIssues?: BomRowIssue[];
+      bomIssuesAcknowledged?: boolean;
+      consolidateDuplicates?: boolean;
       outputDirectory?: string;
+      projectMetadata?: ProjectMetadata;
       results?: {
         total: number;
         matched: number;
+        ambiguous?: number;
         notFound: number;
       };
-      detailedResults?: Array<{
-        manufacturer: string;
-        partNumber: string;
-        matched: boolean;
-        pdfPath?: string;
-        fileName?: string;
-        overridden?: boolean;
-      }>;
+      detailedResults?: Array<BomMatchResult & { overridden?: boolean }>;
       createdAt: string;
       updatedAt: string;
     }
@@ -105,20 +317,21 @@ contextBridge.exposeInMainWorld('electron', {
     sessionData?: {
       pdfDirectory: string;
       csvFilePath: string;
+      bomSheetName?: string;
+      bomHeaderRowIndex?: number;
+      columnMapping?: ColumnMapping;
+      bomIssues?: BomRowIssue[];
+      bomIssuesAcknowledged?: boolean;
+      consolidateDuplicates?: boolean;
       outputDirectory?: string;
+      projectMetadata?: ProjectMetadata;
       results?: {
         total: number;
         matched: number;
+        ambiguous?: number;
         notFound: number;
       };
-      detailedResults?: Array<{
-        manufacturer: string;
-        partNumber: string;
-        matched: boolean;
-        pdfPath?: string;
-        fileName?: string;
-        overridden?: boolean;
-      }>;
+      detailedResults?: Array<BomMatchResult & { overridden?: boolean }>;
       createdAt: string;
       updatedAt: string;
     };
@@ -0,0 +1,157 @@
+/**
+ * Sniffing of BOM file layout: text encoding, CSV delimiter and header row
+ */
+
+/**
+ * Delimiters tried when sniffing a CSV file, in order of preference
+ */
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Number of lines/rows looked at when sniffing
+ */
+const SAMPLE_SIZE = 30;
+
+/**
+ * Decodes a BOM file, honoring a byte order mark and falling back to Windows-1252
+ * when the content is not valid UTF-8
+ * @param buffer The raw file content
+ * @returns The decoded text and the name of the detected encoding
+ */
+export function decodeBomBuffer(buffer: Buffer): { text: string; encoding: string } {
+    if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+        return { text: new TextDecoder('utf-8').decode(buffer.subarray(3)), encoding: 'utf-8 (BOM)' };
+    }
+
+    if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+        return { text: new TextDecoder('utf-16le').decode(buffer.subarray(2)), encoding: 'utf-16le' };
+    }
+
+    if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+        return { text: new TextDecoder('utf-16be').decode(buffer.subarray(2)), encoding: 'utf-16be' };
+    }
+
+    // UTF-16 without a byte order mark: ASCII text leaves every other byte zero
+    const sample = buffer.subarray(0, 1000);
+    let evenZeros = 0, oddZeros = 0;
+    sample.forEach((byte, index) => {
+        if (byte === 0) {
+            if (index % 2 === 0) evenZeros++; else oddZeros++;
+        }
+    });
+    if (oddZeros > sample.length / 4 && evenZeros === 0) {
+        return { text: new TextDecoder('utf-16le').decode(buffer), encoding: 'utf-16le' };
+    }
+    if (evenZeros > sample.length / 4 && oddZeros === 0) {
+        return { text: new TextDecoder('utf-16be').decode(buffer), encoding: 'utf-16be' };
+    }
+
+    try {
+        return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+    } catch {
+        return { text: new TextDecoder('windows-1252').decode(buffer), encoding: 'windows-1252' };
+    }
+}
+
+/**
+ * Counts a delimiter in a line, ignoring occurrences inside quoted fields
+ * @param line A line of CSV text
+ * @param delimiter The delimiter to count
+ * @returns Number of delimiters outside quotes
+ */
+function countDelimiter(line: string, delimiter: string): number {
+    let count = 0;
+    let inQuotes = false;
+
+    for (const char of line) {
+        if (char === '"') {
+            inQuotes = !inQuotes;
+        } else if (char === delimiter && !inQuotes) {
+            count++;
+        }
+    }
+
+    return count;
+}
+
+/**
+ * Picks the delimiter that splits the sample lines most consistently. Title lines
+ * above the header rarely contain delimiters, so the most common non-zero count wins.
+ * @param text The decoded CSV text
+ * @returns The detected delimiter, or "," when nothing stands out
+ */
+export function detectDelimiter(text: string): string {
+    const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, SAMPLE_SIZE);
+    let best = { delimiter: ',', frequency: 0, count: 0 };
+
+    for (const delimiter of CANDIDATE_DELIMITERS) {
+        // How many lines share each delimiter count
+        const frequencies = new Map<number, number>();
+        for (const line of lines) {
+            const count = countDelimiter(line, delimiter);
+            if (count > 0) {
+                frequencies.set(count, (frequencies.get(count) || 0) + 1);
+            }
+        }
+
+        for (const [count, frequency] of frequencies) {
+            if (frequency > best.frequency || (frequency === best.frequency && count > best.count)) {
+                best = { delimiter, frequency, count };
+            }
+        }
+    }
+
+    return best.delimiter;
+}
+
+/**
+ * Normalizes a cell for comparison with known header names
+ * @param value The cell text
+ * @returns Lowercase text without separators
+ */
+function normalizeCell(value: string): string {
+    return value.toLowerCase().replace(/[_\-.\s#]/g, '');
+}
+
+/**
+ * Finds the header row among the first rows of a BOM, skipping title blocks above it.
+ * The row naming the most known columns wins; failing that, the first row that is as
+ * wide as the data below it and contains no numbers.
+ * @param rows The first rows of the file, as cell text
+ * @param knownHeaders Column names that identify a header row
+ * @returns Zero-based index of the header row within `rows`
+ */
+export function detectHeaderRow(rows: string[][], knownHeaders: string[]): number {
+    const sample = rows.slice(0, SAMPLE_SIZE);
+    const known = new Set(knownHeaders.map(normalizeCell));
+
+    let bestIndex = -1, bestHits = 0;
+    sample.forEach((row, index) => {
+        const hits = row.filter(cell => cell && known.has(normalizeCell(cell))).length;
+        if (hits > bestHits) {
+            bestIndex = index;
+            bestHits = hits;
+        }
+    });
+
+    if (bestIndex !== -1) {
+        return bestIndex;
+    }
+
+    // Most common number of filled cells, i.e. the width of the data rows
+    const widths = sample.map(row => row.filter(Boolean).length);
+    const frequencies = new Map<number, number>();
+    widths.forEach(width => frequencies.set(width, (frequencies.get(width) || 0) + 1));
+    const [dataWidth] = [...frequencies.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] || [0];
+
+    if (dataWidth >= 2) {
+        const index = sample.findIndex((row, i) =>
+            widths[i] >= dataWidth && row.filter(Boolean).every(cell => !/^[\d.,\s-]+$/.test(cell))
+        );
+        if (index !== -1) {
+            return index;
+        }
+    }
+
+    return 0;
+}
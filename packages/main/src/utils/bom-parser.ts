@@ -1,5 +1,13 @@
 import fs from 'fs/promises';
+import path from 'path';
 import { parse } from 'csv-parse/sync';
+import * as XLSX from 'xlsx';
+import { decodeBomBuffer, detectDelimiter, detectHeaderRow } from './bom-detection';
+import {
+    DEFAULT_MANUFACTURER_PATTERNS,
+    ManufacturerPattern,
+    inferManufacturer
+} from './manufacturer-inference';
 
 /**
  * Configuration options for parsing a BOM CSV file
@@ -17,6 +25,26 @@ export interface BomParserOptions {
      */
     partNumberField?: string | number | string[];
 
+    /**
+     * Column name or index for quantity field
+     */
+    quantityField?: string | number | string[];
+
+    /**
+     * Column name or index for description field
+     */
+    descriptionField?: string | number | string[];
+
+    /**
+     * Column name or index for device tag field
+     */
+    tagField?: string | number | string[];
+
+    /**
+     * Column name or index of the group a line belongs to, e.g. a panel or spec section
+     */
+    sectionField?: string | number | string[];
+
     /**
      * Whether to skip the header row
      * @default true
@@ -25,20 +53,171 @@ export interface BomParserOptions {
 
     /**
      * CSV delimiter character
-     * @default ","
+     * @default detected from the file (comma, semicolon, tab or pipe)
      */
     delimiter?: string;
+
+    /**
+     * Worksheet to read when parsing an Excel workbook
+     * @default first sheet in the workbook
+     */
+    sheetName?: string;
+
+    /**
+     * Zero-based index of the header row: the row within a worksheet, or the line
+     * within a CSV file. Rows above it (cover blocks, titles) are ignored.
+     * @default detected from the first rows of the file
+     */
+    headerRowIndex?: number;
+
+    /**
+     * Part number patterns used to infer the manufacturer of rows with a blank manufacturer
+     * @default DEFAULT_MANUFACTURER_PATTERNS; an empty list rejects those rows
+     */
+    manufacturerPatterns?: ManufacturerPattern[];
+}
+
+/**
+ * Summary of a worksheet used to let the user pick the sheet and header row
+ */
+export interface WorkbookSheetInfo {
+    name: string;
+    rowCount: number;
+    /** The first rows of the sheet as displayed text */
+    preview: string[][];
 }
 
+/**
+ * File extensions handled as Excel workbooks rather than CSV
+ */
+const WORKBOOK_EXTENSIONS = ['.xlsx', '.xlsm', '.xls'];
+
 /**
  * A BOM entry with manufacturer and part number
  */
 export interface BomEntry {
     manufacturer: string;
     partNumber: string;
+    quantity?: number;
+    description?: string;
+    /** Device tags from the tag column, e.g. ["TB1", "TB2"] */
+    tags?: string[];
+    /** Group from the group-by column, e.g. "CP-1" or "26 24 16" */
+    section?: string;
+    /** Line (CSV) or row (worksheet) number of the entry in the source file */
+    sourceLine?: number;
+    /** Source lines of all rows combined into this entry by consolidation */
+    sourceLines?: number[];
+    /** Pattern the manufacturer was inferred from, when the BOM row had none */
+    inferredFrom?: string;
     [key: string]: any; // Allow additional fields
 }
 
+/**
+ * Why a BOM row was rejected
+ */
+export type BomIssueReason =
+    | 'missing-manufacturer'
+    | 'missing-part-number'
+    | 'malformed-quote'
+    | 'column-count';
+
+/**
+ * A BOM row that could not be turned into an entry
+ */
+export interface BomRowIssue {
+    /** Line (CSV) or row (worksheet) number in the source file */
+    line: number;
+    reason: BomIssueReason;
+    message: string;
+    /** The row's cell values, when the row could be read */
+    values?: string[];
+}
+
+/**
+ * How a BOM file was read, as detected or overridden by the options
+ */
+export interface BomDetection {
+    /** Text encoding of a CSV file */
+    encoding?: string;
+    /** Delimiter of a CSV file */
+    delimiter?: string;
+    /** Zero-based index of the header row (worksheet row or CSV line) */
+    headerRowIndex: number;
+}
+
+/**
+ * Entries parsed from a BOM file together with the rows that were rejected
+ */
+export interface BomParseResult {
+    entries: BomEntry[];
+    issues: BomRowIssue[];
+    detected: BomDetection;
+}
+
+/**
+ * Which BOM column holds each field, chosen by the user in the mapping step
+ */
+export interface ColumnMapping {
+    manufacturer?: string;
+    partNumber?: string;
+    quantity?: string;
+    description?: string;
+    tag?: string;
+    /** Column the merged package is grouped by */
+    section?: string;
+}
+
+/**
+ * Detected headers and the first rows of a BOM file
+ */
+export interface BomPreview {
+    headers: string[];
+    rows: string[][];
+    totalRows: number;
+    detected: BomDetection;
+}
+
+/**
+ * A parsed row, keyed by header name or (without a header row) by column index
+ */
+type BomRecord = Record<string, string> | string[];
+
+/**
+ * Error thrown by csv-parse for a record it cannot read
+ */
+interface CsvError {
+    code?: string;
+    lines?: number;
+    message: string;
+}
+
+/**
+ * Header names and rows read from a BOM file before mapping
+ */
+interface BomTable {
+    headers: string[];
+    records: BomRecord[];
+    /** Source line number of each record */
+    lines: number[];
+    /** Rows that could not be read at all */
+    issues: BomRowIssue[];
+    detected: BomDetection;
+}
+
+/**
+ * Common column names tried for each field when no explicit mapping is given
+ */
+export const DEFAULT_COLUMN_ALIASES: Record<keyof ColumnMapping, string[]> = {
+    manufacturer: ['manufacturer', 'brand', 'vendor', 'mfr', 'mfg'],
+    partNumber: ['part_number', 'partnumber', 'part number', 'part no', 'model', 'catalog number', 'cat no'],
+    quantity: ['quantity', 'qty'],
+    description: ['description', 'desc'],
+    tag: ['tag', 'tags', 'device tag', 'item tag'],
+    // Grouping is opt-in, so no column is picked for it automatically
+    section: []
+};
+
 /**
  * Parse a CSV file containing BOM entries
  * @param filePath Path to the CSV file
@@ -49,79 +228,555 @@ export async function parseBomCsv(
     filePath: string,
     options: BomParserOptions = {}
 ): Promise<BomEntry[]> {
-    // Set default options
-    const {
-        manufacturerField = 'manufacturer',
-        partNumberField = 'part_number',
-        hasHeaderRow = true,
-        delimiter = ','
-    } = options;
-
     try {
-        // Read the CSV file
-        const fileContent = await fs.readFile(filePath, 'utf-8');
-
-        // Parse CSV content
-        const records = parse(fileContent, {
-            columns: hasHeaderRow,
-            skip_empty_lines: true,
-            trim: true,
-            delimiter
-        });
+        return mapTableToEntries(await readCsvTable(filePath, options), options).entries;
+    } catch (error) {
+        console.error('Error parsing BOM CSV file:', error);
+        throw new Error(`Failed to parse BOM CSV: ${(error as Error).message}`);
+    }
+}
 
-        if (records.length === 0) {
-            return [];
-        }
+/**
+ * Reads the rows of a CSV file
+ * @param filePath Path to the CSV file
+ * @param options Parsing options
+ * @returns The header names and the parsed rows
+ */
+async function readCsvTable(filePath: string, options: BomParserOptions): Promise<BomTable> {
+    const { hasHeaderRow = true } = options;
 
-        // Map records to BOM entries
-        return records.map((record: any) => {
-            // Handle column names or indices based on the options
-            let manufacturer = '', partNumber = '';
-
-            if (typeof manufacturerField === 'string') {
-                // Single string column name
-                manufacturer = record[manufacturerField];
-            } else if (Array.isArray(manufacturerField)) {
-                // Array of possible column names - find the first that exists
-                for (const field of manufacturerField) {
-                    if (record[field]) {
-                        manufacturer = record[field];
-                        break;
-                    }
-                }
-            } else {
-                // Column index
-                const keys = Object.keys(record);
-                manufacturer = record[keys[manufacturerField] || 0];
-            }
+    // Read the CSV file, detecting its encoding and delimiter unless one is given
+    const { text: fileContent, encoding } = decodeBomBuffer(await fs.readFile(filePath));
+    const delimiter = options.delimiter || detectDelimiter(fileContent);
+    const headerRowIndex = options.headerRowIndex ?? (hasHeaderRow ? detectCsvHeaderLine(fileContent, delimiter) : 0);
 
-            if (typeof partNumberField === 'string') {
-                // Single string column name
-                partNumber = record[partNumberField];
-            } else if (Array.isArray(partNumberField)) {
-                // Array of possible column names - find the first that exists
-                for (const field of partNumberField) {
-                    if (record[field]) {
-                        partNumber = record[field];
-                        break;
-                    }
+    const physicalLines = fileContent.split(/\r\n|\n|\r/);
+    let headers: string[] = [];
+    const records: BomRecord[] = [];
+    const lines: number[] = [];
+    const issues: BomRowIssue[] = [];
+
+    // Parse from the header down; a malformed row stops csv-parse, so the row is reported
+    // and parsing resumes on the next line, where a stray quote can no longer swallow the rows after it
+    let nextLine = headerRowIndex + 1;
+    while (nextLine <= physicalLines.length) {
+        // Zero-based index of the last line of the last record read, in the whole file
+        const offset = nextLine - 1;
+        let lastRecordLine = offset;
+
+        try {
+            parse(physicalLines.slice(offset).join('\n'), {
+                // Capture the header row as csv-parse reads it, so headers are known even without data rows
+                columns: !hasHeaderRow
+                    ? false
+                    : headers.length > 0
+                        ? headers
+                        : (headerRow: string[]) => {
+                            headers = headerRow.map((header, index) => header || `column_${index + 1}`);
+                            lastRecordLine = offset + 1;
+                            return headers;
+                        },
+                skip_empty_lines: true,
+                // Rows of delimiters only (",,,,") are blank spacer rows, as in a worksheet
+                skip_records_with_empty_values: true,
+                trim: true,
+                delimiter,
+                on_record: (record: BomRecord, context: { lines: number }) => {
+                    records.push(record);
+                    lines.push(offset + context.lines);
+                    lastRecordLine = offset + context.lines;
+                    return record;
                 }
-            } else {
-                // Column index
-                const keys = Object.keys(record);
-                partNumber = record[keys[partNumberField] || 1];
+            });
+            break;
+        } catch (error) {
+            const csvError = error as CsvError;
+            // The failed record starts on the first non-empty line after the last one read
+            let failedLine = lastRecordLine + 1;
+            while (failedLine < physicalLines.length && !physicalLines[failedLine - 1].trim()) {
+                failedLine++;
             }
+            issues.push(describeCsvError(csvError, failedLine));
+
+            // A record with the wrong column count was read whole, so skip all of its lines;
+            // after a bad quote only its first line is rejected
+            nextLine = isColumnCountError(csvError) && csvError.lines
+                ? Math.max(offset + csvError.lines, failedLine) + 1
+                : failedLine + 1;
+        }
+    }
+
+    if (!hasHeaderRow) {
+        headers = records.length > 0 ? (records[0] as string[]).map((_, index) => `column_${index + 1}`) : [];
+    }
+
+    return { headers, records, lines, issues, detected: { encoding, delimiter, headerRowIndex } };
+}
+
+/**
+ * Finds the header line of a CSV file that may have a title block above the header
+ * @param text The decoded CSV text
+ * @param delimiter The CSV delimiter
+ * @returns Zero-based index of the header line
+ */
+function detectCsvHeaderLine(text: string, delimiter: string): number {
+    // Read the first records leniently; title lines rarely have the same column count
+    const sample: Array<{ record: string[]; info: { lines: number } }> = parse(text, {
+        delimiter,
+        trim: true,
+        skip_empty_lines: true,
+        relax_column_count: true,
+        relax_quotes: true,
+        skip_records_with_error: true,
+        info: true,
+        to: 30
+    });
+
+    if (sample.length === 0) {
+        return 0;
+    }
+
+    const index = detectHeaderRow(sample.map(row => row.record), Object.values(DEFAULT_COLUMN_ALIASES).flat());
+    return sample[index].info.lines - 1;
+}
+
+/**
+ * Checks whether a csv-parse error is about a record's column count rather than its quoting
+ * @param error The error thrown by csv-parse
+ * @returns True for a wrong number of columns
+ */
+function isColumnCountError(error: CsvError): boolean {
+    return error.code === 'CSV_RECORD_INCONSISTENT_COLUMNS' || error.code === 'CSV_RECORD_INCONSISTENT_FIELDS_LENGTH';
+}
+
+/**
+ * Turns a csv-parse error for a rejected record into a row issue
+ * @param error The error thrown by csv-parse
+ * @param line Line number the rejected record starts on
+ * @returns The row issue
+ */
+function describeCsvError(error: CsvError, line: number): BomRowIssue {
+    if (isColumnCountError(error)) {
+        return { line, reason: 'column-count', message: 'Wrong number of columns' };
+    }
+
+    return { line, reason: 'malformed-quote', message: `Malformed quote: ${error.message.replace(/ at line \d+/, '')}` };
+}
+
+/**
+ * Checks whether a BOM file should be read as an Excel workbook
+ * @param filePath Path to the BOM file
+ * @returns True for .xlsx/.xlsm/.xls files
+ */
+export function isWorkbookFile(filePath: string): boolean {
+    return WORKBOOK_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Reads a worksheet as rows of display text, keeping blank rows so that
+ * row indices line up with what the user sees in the preview
+ * @param sheet The worksheet to read
+ * @returns Array of rows
+ */
+function readSheetRows(sheet: XLSX.WorkSheet): string[][] {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+        header: 1,
+        raw: false,
+        defval: '',
+        blankrows: true
+    });
+
+    return rows.map(row => row.map(cell => (cell === null || cell === undefined ? '' : String(cell).trim())));
+}
+
+/**
+ * Loads an Excel workbook from disk
+ * @param filePath Path to the workbook
+ * @returns The parsed workbook
+ */
+async function readWorkbook(filePath: string): Promise<XLSX.WorkBook> {
+    const buffer = await fs.readFile(filePath);
+    return XLSX.read(buffer, { type: 'buffer' });
+}
+
+/**
+ * Lists the worksheets in an Excel workbook with a preview of each
+ * @param filePath Path to the workbook
+ * @param previewRows Number of rows to include in each preview
+ * @returns Sheet names, row counts and preview rows
+ */
+export async function listWorkbookSheets(
+    filePath: string,
+    previewRows: number = 15
+): Promise<WorkbookSheetInfo[]> {
+    try {
+        const workbook = await readWorkbook(filePath);
 
+        return workbook.SheetNames.map(name => {
+            const rows = readSheetRows(workbook.Sheets[name]);
             return {
-                manufacturer: manufacturer || '',
-                partNumber: partNumber || '',
-                ...record // Include all other fields
+                name,
+                rowCount: rows.length,
+                preview: rows.slice(0, previewRows)
             };
-        }).filter((entry: BomEntry) => entry.manufacturer && entry.partNumber);
+        });
     } catch (error) {
-        console.error('Error parsing BOM CSV file:', error);
-        throw new Error(`Failed to parse BOM CSV: ${(error as Error).message}`);
+        console.error('Error reading BOM workbook:', error);
+        throw new Error(`Failed to read BOM workbook: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Parse a worksheet of an Excel workbook (.xlsx/.xls) containing BOM entries
+ * @param filePath Path to the workbook
+ * @param options Parsing options, including the sheet and header row to use
+ * @returns Array of BOM entries
+ */
+export async function parseBomWorkbook(
+    filePath: string,
+    options: BomParserOptions = {}
+): Promise<BomEntry[]> {
+    try {
+        return mapTableToEntries(await readWorkbookTable(filePath, options), options).entries;
+    } catch (error) {
+        console.error('Error parsing BOM workbook:', error);
+        throw new Error(`Failed to parse BOM workbook: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Reads the rows of a worksheet, starting at the configured header row
+ * @param filePath Path to the workbook
+ * @param options Parsing options, including the sheet and header row to use
+ * @returns The header names and the parsed rows
+ */
+async function readWorkbookTable(filePath: string, options: BomParserOptions): Promise<BomTable> {
+    const { hasHeaderRow = true } = options;
+
+    const workbook = await readWorkbook(filePath);
+    const sheetName = options.sheetName || workbook.SheetNames[0];
+    const sheet = workbook.Sheets[sheetName];
+
+    if (!sheet) {
+        throw new Error(`Worksheet not found: ${sheetName}`);
+    }
+
+    const sheetRows = readSheetRows(sheet);
+    const headerRowIndex = options.headerRowIndex
+        ?? (hasHeaderRow ? detectHeaderRow(sheetRows, Object.values(DEFAULT_COLUMN_ALIASES).flat()) : 0);
+    const detected: BomDetection = { headerRowIndex };
+
+    // Keep each row's worksheet row number (1-based) before blank rows are dropped
+    const rows = sheetRows
+        .map((cells, index) => ({ cells, line: index + 1 }))
+        .slice(headerRowIndex);
+    const isBlank = (row: string[]) => row.every(cell => !cell);
+
+    if (!hasHeaderRow) {
+        const dataRows = rows.filter(row => !isBlank(row.cells));
+        const columnCount = Math.max(0, ...dataRows.map(row => row.cells.length));
+        return {
+            headers: Array.from({ length: columnCount }, (_, index) => `column_${index + 1}`),
+            records: dataRows.map(row => row.cells),
+            lines: dataRows.map(row => row.line),
+            issues: [],
+            detected
+        };
+    }
+
+    const [headerRow, ...dataRows] = rows;
+    const headers = (headerRow?.cells || []).map((header, index) => header || `column_${index + 1}`);
+    const nonBlankRows = dataRows.filter(row => !isBlank(row.cells));
+
+    // Turn each row into a record keyed by header, like csv-parse does with `columns: true`
+    const records = nonBlankRows.map(row => {
+        const record: Record<string, string> = {};
+        headers.forEach((header, index) => {
+            record[header] = row.cells[index] ?? '';
+        });
+        return record;
+    });
+
+    return { headers, records, lines: nonBlankRows.map(row => row.line), issues: [], detected };
+}
+
+/**
+ * Parse a BOM file (CSV or workbook, chosen from the file extension) and report
+ * every row that was rejected along with its line number and the reason
+ * @param filePath Path to the BOM file
+ * @param options Parsing options
+ * @returns The BOM entries and the rejected rows
+ */
+export async function parseBomFile(
+    filePath: string,
+    options: BomParserOptions = {}
+): Promise<BomParseResult> {
+    try {
+        const table = isWorkbookFile(filePath)
+            ? await readWorkbookTable(filePath, options)
+            : await readCsvTable(filePath, options);
+
+        return mapTableToEntries(table, options);
+    } catch (error) {
+        console.error('Error parsing BOM file:', error);
+        throw new Error(`Failed to parse BOM file: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Reads the detected headers and the first rows of a BOM file for the column mapping step
+ * @param filePath Path to the BOM file (CSV or workbook)
+ * @param options Parsing options (sheet, header row, delimiter)
+ * @param rowLimit Number of data rows to include
+ * @returns Headers and preview rows aligned with them
+ */
+export async function previewBomFile(
+    filePath: string,
+    options: BomParserOptions = {},
+    rowLimit: number = 10
+): Promise<BomPreview> {
+    try {
+        const { headers, records, detected } = isWorkbookFile(filePath)
+            ? await readWorkbookTable(filePath, options)
+            : await readCsvTable(filePath, options);
+
+        const rows = records.slice(0, rowLimit).map(record =>
+            Array.isArray(record)
+                ? headers.map((_, index) => record[index] ?? '')
+                : headers.map(header => record[header] ?? '')
+        );
+
+        return {
+            headers,
+            rows,
+            totalRows: records.length,
+            detected
+        };
+    } catch (error) {
+        console.error('Error previewing BOM file:', error);
+        throw new Error(`Failed to read BOM file: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Suggests a column mapping for a set of headers using the default column aliases
+ * @param headers The detected header names
+ * @returns The first header matching each field's aliases
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    const normalizedHeaders = headers.map(header => header.toLowerCase().replace(/[_\-.\s]+/g, ' ').trim());
+
+    for (const field of Object.keys(DEFAULT_COLUMN_ALIASES) as Array<keyof ColumnMapping>) {
+        for (const alias of DEFAULT_COLUMN_ALIASES[field]) {
+            const index = normalizedHeaders.indexOf(alias.replace(/_/g, ' '));
+            if (index !== -1) {
+                mapping[field] = headers[index];
+                break;
+            }
+        }
     }
+
+    return mapping;
+}
+
+/**
+ * Builds parser options from a column mapping, falling back to the default aliases for unmapped fields
+ * @param mapping The user's column mapping
+ * @returns Field options for the parser
+ */
+export function columnMappingToOptions(mapping: ColumnMapping = {}): BomParserOptions {
+    return {
+        manufacturerField: mapping.manufacturer || DEFAULT_COLUMN_ALIASES.manufacturer,
+        partNumberField: mapping.partNumber || DEFAULT_COLUMN_ALIASES.partNumber,
+        quantityField: mapping.quantity || DEFAULT_COLUMN_ALIASES.quantity,
+        descriptionField: mapping.description || DEFAULT_COLUMN_ALIASES.description,
+        tagField: mapping.tag || DEFAULT_COLUMN_ALIASES.tag,
+        sectionField: mapping.section
+    };
+}
+
+/**
+ * Reads a value from a record using a column name, a list of candidate names, or a column index
+ * @param record A parsed row, keyed by header name or column index
+ * @param field The column name(s) or index
+ * @param fallbackIndex Column index to use when the given index does not exist
+ * @returns The cell value, or an empty string
+ */
+function readField(
+    record: BomRecord,
+    field: string | number | string[] | undefined,
+    fallbackIndex?: number
+): string {
+    if (field === undefined) {
+        return '';
+    }
+
+    // Arrays are indexed the same way through their string keys ("0", "1", ...)
+    record = record as Record<string, string>;
+
+    if (typeof field === 'string') {
+        // Single string column name
+        return record[field] || '';
+    }
+
+    if (Array.isArray(field)) {
+        // Array of possible column names - find the first that exists
+        for (const name of field) {
+            if (record[name]) {
+                return record[name];
+            }
+        }
+        return '';
+    }
+
+    // Column index
+    const keys = Object.keys(record);
+    return record[keys[field] || fallbackIndex || 0] || '';
+}
+
+/**
+ * Parses a quantity cell such as "12", "1,200" or "4 EA"
+ * @param value The cell text
+ * @returns The numeric quantity, or undefined when the cell has no number
+ */
+function parseQuantity(value: string): number | undefined {
+    const match = value.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? Number(match[0]) : undefined;
+}
+
+/**
+ * Splits a tag cell such as "TB1, TB2; TB3" into individual tags
+ * @param value The cell text
+ * @returns The tags, without blanks
+ */
+function splitTags(value: string): string[] {
+    return value.split(/[,;\n]/).map(tag => tag.trim()).filter(Boolean);
+}
+
+/**
+ * Normalizes a manufacturer or part number for duplicate detection
+ * @param value The text to normalize
+ * @returns Lowercase text without separators
+ */
+function normalizeKey(value: string): string {
+    return value.toLowerCase().replace(/[_\-.\s]/g, '');
+}
+
+/**
+ * Combines BOM lines with the same manufacturer and part number into a single entry.
+ * Quantities are summed (a line without a quantity counts as 1), tags are collected
+ * in BOM order and the first non-empty description is kept. Lines of different
+ * groups stay separate so each group lists its own parts.
+ * @param entries The parsed BOM entries
+ * @returns One entry per group + manufacturer + part number, in order of first appearance
+ */
+export function consolidateBomEntries(entries: BomEntry[]): BomEntry[] {
+    const consolidated = new Map<string, BomEntry>();
+
+    for (const entry of entries) {
+        const key = `${normalizeKey(entry.section || '')}|${normalizeKey(entry.manufacturer)}|${normalizeKey(entry.partNumber)}`;
+        const existing = consolidated.get(key);
+        const lines = entry.sourceLines || (entry.sourceLine !== undefined ? [entry.sourceLine] : []);
+
+        if (!existing) {
+            consolidated.set(key, {
+                ...entry,
+                quantity: entry.quantity ?? 1,
+                tags: entry.tags ? [...entry.tags] : undefined,
+                sourceLines: lines
+            });
+            continue;
+        }
+
+        existing.quantity = (existing.quantity ?? 1) + (entry.quantity ?? 1);
+        existing.description = existing.description || entry.description;
+        existing.sourceLines = [...(existing.sourceLines || []), ...lines];
+
+        // A line that names the manufacturer confirms the inferred one
+        if (!entry.inferredFrom) {
+            delete existing.inferredFrom;
+        }
+
+        for (const tag of entry.tags || []) {
+            existing.tags = existing.tags || [];
+            if (!existing.tags.includes(tag)) {
+                existing.tags.push(tag);
+            }
+        }
+    }
+
+    return [...consolidated.values()];
+}
+
+/**
+ * Maps parsed rows to BOM entries using the configured columns. A blank manufacturer
+ * is inferred from the part number where a pattern matches; rows still missing a
+ * manufacturer or part number are rejected
+ * @param table Parsed rows with their source line numbers
+ * @param options Field options for the parser
+ * @returns BOM entries and the rejected rows, in source order
+ */
+function mapTableToEntries(table: BomTable, options: BomParserOptions): BomParseResult {
+    const {
+        manufacturerField = 'manufacturer',
+        partNumberField = 'part_number',
+        quantityField,
+        descriptionField,
+        tagField,
+        sectionField,
+        manufacturerPatterns = DEFAULT_MANUFACTURER_PATTERNS
+    } = options;
+
+    const entries: BomEntry[] = [];
+    const issues: BomRowIssue[] = [...table.issues];
+
+    // Map records to BOM entries
+    table.records.forEach((record, index) => {
+        const line = table.lines[index];
+        const partNumber = readField(record, partNumberField, 1);
+        const bomManufacturer = readField(record, manufacturerField, 0);
+        const inference = !bomManufacturer && partNumber ? inferManufacturer(partNumber, manufacturerPatterns) : null;
+        const manufacturer = bomManufacturer || inference?.manufacturer || '';
+
+        if (!manufacturer || !partNumber) {
+            const values = Array.isArray(record) ? record : Object.values(record);
+            issues.push({
+                line,
+                reason: partNumber ? 'missing-manufacturer' : 'missing-part-number',
+                message: !manufacturer && !partNumber
+                    ? 'Missing manufacturer and part number'
+                    : !manufacturer ? 'Missing manufacturer' : 'Blank part number',
+                values
+            });
+            return;
+        }
+
+        // Only mapped columns become fields; a raw column named "quantity" or "tags" must not stand in for them
+        const entry: BomEntry = {
+            manufacturer,
+            partNumber,
+            sourceLine: line
+        };
+
+        if (inference) entry.inferredFrom = inference.pattern;
+
+        const quantity = parseQuantity(readField(record, quantityField));
+        const description = readField(record, descriptionField);
+        const tags = splitTags(readField(record, tagField));
+        const section = readField(record, sectionField);
+
+        if (quantity !== undefined) entry.quantity = quantity;
+        if (description) entry.description = description;
+        if (tags.length > 0) entry.tags = tags;
+        if (section) entry.section = section;
+
+        entries.push(entry);
+    });
+
+    issues.sort((a, b) => a.line - b.line);
+
+    return { entries, issues, detected: table.detected };
 }
 
 /**
@@ -0,0 +1,292 @@
+import fs from 'fs/promises';
+import { PDFDocument as PDFLib, PDFFont, PDFImage, PDFPage, rgb } from 'pdf-lib';
+import { toEncodableText } from './font-text';
+
+/**
+ * Project details printed on the cover sheet of a submittal package
+ */
+export interface ProjectMetadata {
+    projectName: string;
+    projectNumber: string;
+    customer: string;
+    engineerOfRecord: string;
+    contractor: string;
+    submittalNumber: string;
+    revision: string;
+    // Free text; today's date is printed when empty
+    date: string;
+    // PNG or JPG image printed at the top of the cover
+    logoPath?: string;
+}
+
+/**
+ * A text field of the project metadata that the cover sheet can show
+ */
+export type CoverField = Exclude<keyof ProjectMetadata, 'logoPath'>;
+
+/**
+ * How the cover sheet is laid out; the same layout is used for every project
+ */
+export interface CoverSheetLayout {
+    title: string;
+    logoPosition: 'left' | 'center' | 'right' | 'hidden';
+    // Largest logo height in points; wide logos are scaled down further to fit the margins
+    logoMaxHeight: number;
+    alignment: 'left' | 'center';
+    // Fields shown, in order; empty fields are skipped
+    fields: CoverField[];
+}
+
+export const COVER_FIELD_LABELS: Record<CoverField, string> = {
+    projectName: 'Project',
+    projectNumber: 'Project No.',
+    customer: 'Customer',
+    engineerOfRecord: 'Engineer of Record',
+    contractor: 'Contractor',
+    submittalNumber: 'Submittal No.',
+    revision: 'Revision',
+    date: 'Date'
+};
+
+export const DEFAULT_COVER_LAYOUT: CoverSheetLayout = {
+    title: 'SUBMITTAL PACKAGE',
+    logoPosition: 'left',
+    logoMaxHeight: 72,
+    alignment: 'left',
+    fields: [
+        'projectName',
+        'projectNumber',
+        'customer',
+        'engineerOfRecord',
+        'contractor',
+        'submittalNumber',
+        'revision',
+        'date'
+    ]
+};
+
+// Cover layout for a Letter page (612pt wide, 50pt margins)
+const PAGE_SIZE: [number, number] = [612, 792];
+const MARGIN = 50;
+const VALUE_X = 200;
+const FIELD_SPACING = 28;
+// Long titles shrink to fit the page width down to this size, then wrap
+const TITLE_SIZE = 28;
+const MIN_TITLE_SIZE = 18;
+// Long values wrap onto at most this many lines; the last one is cut short with "..."
+const MAX_VALUE_LINES = 3;
+
+/**
+ * Checks whether any text field of the project metadata is filled in
+ * @param metadata The project metadata
+ * @returns True if the cover sheet would have something to show besides the title
+ */
+export function hasProjectMetadata(metadata: ProjectMetadata): boolean {
+    return (Object.keys(COVER_FIELD_LABELS) as CoverField[]).some(field => metadata[field]?.trim()) ||
+        Boolean(metadata.logoPath);
+}
+
+/**
+ * Checks a cover sheet layout
+ * @param layout The layout to check
+ * @returns A description of the first problem, or null if the layout is valid
+ */
+export function validateCoverLayout(layout: CoverSheetLayout): string | null {
+    if (!Number.isFinite(layout.logoMaxHeight) || layout.logoMaxHeight < 12 || layout.logoMaxHeight > 300) {
+        return 'The logo height must be between 12 and 300 points';
+    }
+    const unknown = layout.fields.find(field => !(field in COVER_FIELD_LABELS));
+    if (unknown) {
+        return `Unknown cover field: ${unknown}`;
+    }
+    if (new Set(layout.fields).size !== layout.fields.length) {
+        return 'A cover field is listed twice';
+    }
+
+    return null;
+}
+
+/**
+ * Breaks text into lines that fit a width, between words where possible, after replacing
+ * the characters the font cannot encode
+ * @param raw The text to break
+ * @param font The font the text is drawn in
+ * @param size The font size
+ * @param maxWidth The widest a line may be
+ * @param maxLines The most lines to return; text beyond them is cut short with "..."
+ * @returns The lines
+ */
+function wrapText(raw: string, font: PDFFont, size: number, maxWidth: number, maxLines: number): string[] {
+    const text = toEncodableText(raw, font);
+    const fits = (line: string) => font.widthOfTextAtSize(line, size) <= maxWidth;
+    const lines: string[] = [];
+    let line = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (fits(candidate)) {
+            line = candidate;
+            continue;
+        }
+        if (line) {
+            lines.push(line);
+        }
+        // A word wider than the line on its own is broken between characters
+        line = word;
+        while (line.length > 1 && !fits(line)) {
+            let cut = line.length - 1;
+            while (cut > 1 && !fits(line.slice(0, cut))) {
+                cut--;
+            }
+            lines.push(line.slice(0, cut));
+            line = line.slice(cut);
+        }
+    }
+    if (line) {
+        lines.push(line);
+    }
+
+    if (lines.length <= maxLines) {
+        return lines;
+    }
+
+    let last = lines[maxLines - 1];
+    while (last.length > 0 && !fits(`${last}...`)) {
+        last = last.slice(0, -1);
+    }
+    return [...lines.slice(0, maxLines - 1), `${last}...`];
+}
+
+/**
+ * Embeds a logo image, telling PNG from JPG by its contents
+ * @param pdf The document to embed the logo in
+ * @param logoPath Path to the image
+ * @returns The embedded image
+ */
+async function embedLogo(pdf: PDFLib, logoPath: string): Promise<PDFImage> {
+    const bytes = await fs.readFile(logoPath).catch(() => {
+        throw new Error(`Logo file not found: ${logoPath}`);
+    });
+
+    if (bytes.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]))) {
+        return pdf.embedPng(bytes);
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+        return pdf.embedJpg(bytes);
+    }
+
+    throw new Error(`Logo must be a PNG or JPG image: ${logoPath}`);
+}
+
+/**
+ * Adds a cover sheet page to a document
+ * @param pdf The document; the cover is added as its next page
+ * @param metadata The project details to print
+ * @param layout The cover layout
+ * @param fonts The regular and bold fonts to draw with
+ * @returns The cover page
+ */
+export async function addCoverSheet(
+    pdf: PDFLib,
+    metadata: ProjectMetadata,
+    layout: CoverSheetLayout,
+    fonts: { regular: PDFFont; bold: PDFFont }
+): Promise<PDFPage> {
+    const page = pdf.addPage(PAGE_SIZE);
+    const [width, height] = PAGE_SIZE;
+    const contentWidth = width - 2 * MARGIN;
+    let y = height - MARGIN;
+
+    // X of a line of text, centered or at the left margin
+    const lineX = (textWidth: number) =>
+        (layout.alignment === 'center' ? (width - textWidth) / 2 : MARGIN);
+
+    if (metadata.logoPath && layout.logoPosition !== 'hidden') {
+        const logo = await embedLogo(pdf, metadata.logoPath);
+        const scale = Math.min(layout.logoMaxHeight / logo.height, contentWidth / logo.width, 1);
+        const logoWidth = logo.width * scale;
+        const logoHeight = logo.height * scale;
+        const x = layout.logoPosition === 'center'
+            ? (width - logoWidth) / 2
+            : layout.logoPosition === 'right' ? width - MARGIN - logoWidth : MARGIN;
+
+        page.drawImage(logo, { x, y: y - logoHeight, width: logoWidth, height: logoHeight });
+        y -= logoHeight + 40;
+    } else {
+        y -= 40;
+    }
+
+    if (layout.title) {
+        const title = toEncodableText(layout.title, fonts.bold);
+        const titleSize = Math.max(
+            MIN_TITLE_SIZE,
+            Math.min(TITLE_SIZE, TITLE_SIZE * contentWidth / fonts.bold.widthOfTextAtSize(title, TITLE_SIZE))
+        );
+        for (const line of wrapText(title, fonts.bold, titleSize, contentWidth, 2)) {
+            page.drawText(line, {
+                x: lineX(fonts.bold.widthOfTextAtSize(line, titleSize)),
+                y: y - titleSize,
+                size: titleSize,
+                font: fonts.bold,
+                color: rgb(0, 0, 0)
+            });
+            y -= titleSize * 1.2;
+        }
+        y -= 50;
+    }
+
+    for (const field of layout.fields) {
+        const value = metadata[field]?.trim() || (field === 'date' ? new Date().toLocaleDateString() : '');
+        if (!value) {
+            continue;
+        }
+
+        const label = COVER_FIELD_LABELS[field];
+        if (layout.alignment === 'center') {
+            // Centered covers stack the label above its value
+            page.drawText(label.toUpperCase(), {
+                x: lineX(fonts.bold.widthOfTextAtSize(label.toUpperCase(), 9)),
+                y,
+                size: 9,
+                font: fonts.bold,
+                color: rgb(0.35, 0.35, 0.35)
+            });
+            const lines = wrapText(value, fonts.regular, 14, contentWidth, MAX_VALUE_LINES);
+            lines.forEach((line, index) => {
+                page.drawText(line, {
+                    x: lineX(fonts.regular.widthOfTextAtSize(line, 14)),
+                    y: y - 16 - index * 17,
+                    size: 14,
+                    font: fonts.regular,
+                    color: rgb(0, 0, 0)
+                });
+            });
+            y -= FIELD_SPACING + 14 + (lines.length - 1) * 17;
+        } else {
+            page.drawText(`${label}:`, {
+                x: MARGIN,
+                y,
+                size: 12,
+                font: fonts.bold,
+                color: rgb(0, 0, 0)
+            });
+            const lines = wrapText(value, fonts.regular, 12, width - MARGIN - VALUE_X, MAX_VALUE_LINES);
+            lines.forEach((line, index) => {
+                page.drawText(line, {
+                    x: VALUE_X,
+                    y: y - index * 15,
+                    size: 12,
+                    font: fonts.regular,
+                    color: rgb(0, 0, 0)
+                });
+            });
+            y -= FIELD_SPACING + (lines.length - 1) * 15;
+        }
+
+        if (y < MARGIN) {
+            break;
+        }
+    }
+
+    return page;
+}
@@ -0,0 +1,110 @@
+import { globToCaptureRegExp } from './glob';
+import { ManufacturerAliasTable, resolveManufacturer } from './manufacturer-aliases';
+
+/**
+ * A data sheet that covers a whole part family or series, e.g. one PDF for GV2ME01
+ * through GV2ME32. Patterns are globs over the part number ("GV2ME*", "3RV2011-1*A10");
+ * separators are ignored on both sides, so "3RV20111JA10" is covered by "3RV2011-1*A10".
+ */
+export interface FamilySheet {
+    id: string;
+    // Empty to cover the patterns for any manufacturer
+    manufacturer: string;
+    pdfPath: string;
+    patterns: string[];
+}
+
+/**
+ * A family sheet that covers a part number, with the pattern that covers it
+ */
+export interface FamilyCoverage {
+    sheet: FamilySheet;
+    pattern: string;
+    // Literal characters in the pattern; the more, the narrower the family
+    specificity: number;
+}
+
+/**
+ * Removes separators, keeping the wildcards of a pattern
+ * @param value The part number or pattern
+ * @returns The lowercase letters, digits and wildcards
+ */
+function compactPattern(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9*?]/g, '');
+}
+
+/**
+ * Counts the literal characters of a family pattern
+ * @param pattern The glob pattern
+ * @returns The number of characters that are not wildcards or separators
+ */
+export function familyPatternSpecificity(pattern: string): number {
+    return compactPattern(pattern).replace(/[*?]/g, '').length;
+}
+
+/**
+ * Checks whether a family pattern covers a part number
+ * @param pattern The glob pattern
+ * @param partNumber The part number from the BOM
+ * @returns True if the part number is in the family
+ */
+export function familyPatternCovers(pattern: string, partNumber: string): boolean {
+    const compact = compactPattern(pattern);
+    return compact.replace(/[*?]/g, '').length > 0 && globToCaptureRegExp(compact).test(compactPattern(partNumber));
+}
+
+/**
+ * Finds the family sheets covering a part number
+ * @param sheets The declared family sheets
+ * @param manufacturer The manufacturer name from the BOM
+ * @param partNumber The part number from the BOM
+ * @param manufacturerAliases The alias table used to compare manufacturers
+ * @returns Covering sheets, most specific pattern first
+ */
+export function findCoveringSheets(
+    sheets: FamilySheet[],
+    manufacturer: string,
+    partNumber: string,
+    manufacturerAliases: ManufacturerAliasTable
+): FamilyCoverage[] {
+    const canonical = resolveManufacturer(manufacturer, manufacturerAliases).toLowerCase();
+    const coverage: FamilyCoverage[] = [];
+
+    for (const sheet of sheets) {
+        if (sheet.manufacturer && resolveManufacturer(sheet.manufacturer, manufacturerAliases).toLowerCase() !== canonical) {
+            continue;
+        }
+
+        // A sheet listing several patterns counts with the narrowest one that covers the part
+        const covering = sheet.patterns
+            .filter(pattern => familyPatternCovers(pattern, partNumber))
+            .sort((a, b) => familyPatternSpecificity(b) - familyPatternSpecificity(a));
+        if (covering.length > 0) {
+            coverage.push({ sheet, pattern: covering[0], specificity: familyPatternSpecificity(covering[0]) });
+        }
+    }
+
+    return coverage.sort((a, b) => b.specificity - a.specificity);
+}
+
+/**
+ * Checks every family sheet for a missing file or an empty pattern
+ * @param sheets The sheets to check
+ * @returns A description of the first problem, or null if all sheets are valid
+ */
+export function validateFamilySheets(sheets: FamilySheet[]): string | null {
+    for (const sheet of sheets) {
+        if (!sheet.pdfPath) {
+            return `A family sheet for ${sheet.patterns.join(', ') || '(no patterns)'} has no PDF`;
+        }
+        if (sheet.patterns.length === 0) {
+            return `Family sheet ${sheet.pdfPath} covers no part patterns`;
+        }
+        const literalFree = sheet.patterns.find(pattern => familyPatternSpecificity(pattern) === 0);
+        if (literalFree !== undefined) {
+            return `Pattern "${literalFree}" would cover every part number`;
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,147 @@
+import { globToCaptureRegExp, globToRegExp } from './glob';
+import { ManufacturerAliasTable, resolveManufacturer } from './manufacturer-aliases';
+
+/**
+ * How a rule's patterns are written
+ */
+export type RuleSyntax = 'glob' | 'regex';
+
+/**
+ * Maps the part numbers of one manufacturer onto the filenames that document them,
+ * e.g. Allen-Bradley "1756-L8*" → "1756-td001*". Groups captured from the part number
+ * ("*" and "?" in a glob, parentheses in a regex) are inserted into the file pattern as $1, $2, ...
+ */
+export interface FilenameRule {
+    id: string;
+    manufacturer: string;
+    syntax: RuleSyntax;
+    partPattern: string;
+    filePattern: string;
+    enabled: boolean;
+}
+
+/**
+ * A library file hit by a rule
+ */
+export interface RuleMatch<T extends { fileName: string }> {
+    file: T;
+    rule: FilenameRule;
+}
+
+/**
+ * Escapes the characters that have a meaning in a regular expression
+ * @param value The literal text
+ * @returns The escaped text
+ */
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compiles the part number side of a rule
+ * @param rule The rule
+ * @returns A case-insensitive expression with the rule's capture groups
+ */
+function compilePartPattern(rule: FilenameRule): RegExp {
+    return rule.syntax === 'glob' ? globToCaptureRegExp(rule.partPattern) : new RegExp(rule.partPattern, 'i');
+}
+
+/**
+ * Builds the filename pattern a rule produces for one part number
+ * @param rule The rule
+ * @param partNumber The part number from the BOM
+ * @returns An expression for the filenames to match, or null if the rule does not cover the part
+ */
+export function filePatternForPart(rule: FilenameRule, partNumber: string): RegExp | null {
+    const captures = compilePartPattern(rule).exec(partNumber.trim());
+    if (!captures) {
+        return null;
+    }
+
+    const escape = rule.syntax === 'regex' ? escapeRegExp : (value: string) => value.replace(/[*?]/g, '');
+    const pattern = rule.filePattern.replace(/\$(\d)/g, (_, group: string) => escape(captures[Number(group)] || ''));
+
+    return rule.syntax === 'glob' ? globToRegExp(pattern) : new RegExp(pattern, 'i');
+}
+
+/**
+ * Builds a rule's filename pattern, treating a pattern that does not compile as not covering the part
+ */
+function tryFilePatternForPart(rule: FilenameRule, partNumber: string): RegExp | null {
+    try {
+        return filePatternForPart(rule, partNumber);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Checks every rule for a missing field or an invalid pattern
+ * @param rules The rules to check
+ * @returns A description of the first problem, or null if all rules are valid
+ */
+export function validateFilenameRules(rules: FilenameRule[]): string | null {
+    for (const rule of rules) {
+        const label = `${rule.manufacturer || '(no manufacturer)'} ${rule.partPattern}`;
+
+        if (!rule.manufacturer.trim() || !rule.partPattern.trim() || !rule.filePattern.trim()) {
+            return `Rule ${label} needs a manufacturer, a part pattern and a file pattern`;
+        }
+        if (rule.syntax === 'regex') {
+            try {
+                new RegExp(rule.partPattern);
+                new RegExp(rule.filePattern.replace(/\$\d/g, ''));
+            } catch (error) {
+                return `Invalid pattern in rule ${label}: ${error instanceof Error ? error.message : String(error)}`;
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Finds the library files the rules for a manufacturer map a part number onto
+ * @param rules The rules, in priority order
+ * @param manufacturer The manufacturer name from the BOM
+ * @param partNumber The part number from the BOM
+ * @param files The library files
+ * @param manufacturerAliases The alias table used to compare manufacturers
+ * @returns The files hit by the first rule that covers the part and hits any file
+ */
+export function findRuleMatches<T extends { fileName: string }>(
+    rules: FilenameRule[],
+    manufacturer: string,
+    partNumber: string,
+    files: T[],
+    manufacturerAliases: ManufacturerAliasTable
+): RuleMatch<T>[] {
+    const canonical = resolveManufacturer(manufacturer, manufacturerAliases).toLowerCase();
+
+    for (const rule of rules) {
+        if (!rule.enabled || resolveManufacturer(rule.manufacturer, manufacturerAliases).toLowerCase() !== canonical) {
+            continue;
+        }
+
+        const filePattern = tryFilePatternForPart(rule, partNumber);
+        if (!filePattern) {
+            continue;
+        }
+
+        const hits = files.filter(file => filePattern.test(file.fileName));
+        if (hits.length > 0) {
+            return hits.map(file => ({ file, rule }));
+        }
+    }
+
+    return [];
+}
+
+/**
+ * Describes a rule for display, e.g. "1756-L8* → 1756-td001*"
+ * @param rule The rule
+ * @returns The part pattern and file pattern
+ */
+export function describeFilenameRule(rule: FilenameRule): string {
+    return `${rule.partPattern} → ${rule.filePattern}`;
+}
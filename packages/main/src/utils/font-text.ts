@@ -0,0 +1,61 @@
+import { PDFFont } from 'pdf-lib';
+
+// Close stand-ins for common BOM characters the standard (WinAnsi) fonts cannot encode
+const SUBSTITUTES: Record<string, string> = {
+    'Ω': 'Ohm', // Greek capital omega, as in "10 kΩ"
+    '\u2126': 'Ohm', // Ohm sign
+    '≤': '<=',
+    '≥': '>=',
+    '≠': '!=',
+    '−': '-', // Minus sign
+    '\u2010': '-', // Hyphen
+    '\u2011': '-', // Non-breaking hyphen
+    '′': "'", // Prime (feet, minutes)
+    '″': '"', // Double prime (inches, seconds)
+    '∞': 'inf',
+    'Ł': 'L',
+    'ł': 'l',
+    'Đ': 'D',
+    'đ': 'd'
+};
+
+// Character sets of the fonts seen so far, as Unicode code points
+const characterSets = new WeakMap<PDFFont, Set<number>>();
+
+/**
+ * Makes text drawable with a font that only covers some characters, such as the standard
+ * PDF fonts (WinAnsi). Measuring or drawing a character the font cannot encode throws, so
+ * BOM and project text goes through here first: line breaks and tabs become spaces, common
+ * symbols get a close stand-in ("Ω" → "Ohm"), accented letters lose their accents where
+ * that makes them encodable ("ł" → "l") and anything else becomes "?".
+ * @param text The text to draw
+ * @param font The font it will be drawn with
+ * @returns The text with every character encodable in the font
+ */
+export function toEncodableText(text: string, font: PDFFont): string {
+    let characters = characterSets.get(font);
+    if (!characters) {
+        characters = new Set(font.getCharacterSet());
+        characterSets.set(font, characters);
+    }
+    const supported = characters;
+    const encodable = (value: string) =>
+        [...value].every(character => supported.has(character.codePointAt(0) as number));
+
+    let result = '';
+    for (const character of text) {
+        if (encodable(character)) {
+            result += character;
+        } else if (/\s/.test(character)) {
+            result += ' ';
+        } else if (SUBSTITUTES[character] && encodable(SUBSTITUTES[character])) {
+            result += SUBSTITUTES[character];
+        } else {
+            // Drop combining accents, e.g. "ő" → "o"
+            const base = character.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+            result += base && encodable(base) ? base : '?';
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,72 @@
+/**
+ * Converts a glob pattern to a regular expression.
+ * "**" matches across folders, "*" and "?" stay within one path segment.
+ * @param pattern The glob pattern, using "/" as separator
+ * @returns A case-insensitive expression matching the whole path
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = '';
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+
+        if (char === '*' && pattern[i + 1] === '*') {
+            // "**/" also matches no folder at all
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Checks a path against a glob pattern. Patterns without a "/" are matched
+ * against every segment of the path, so "Archive" ignores any folder named Archive.
+ * @param relativePath The path relative to the library root
+ * @param pattern The glob pattern
+ * @returns True if the path matches
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+    const normalizedPath = relativePath.split('\\').join('/');
+    const expression = globToRegExp(pattern);
+
+    if (!pattern.includes('/')) {
+        return normalizedPath.split('/').some(segment => expression.test(segment));
+    }
+
+    return expression.test(normalizedPath);
+}
+
+/**
+ * Converts a glob pattern over a single name (such as a part number) to a regular
+ * expression in which every "*" and "?" is a capture group, numbered from $1
+ * @param pattern The glob pattern
+ * @returns A case-insensitive expression matching the whole name
+ */
+export function globToCaptureRegExp(pattern: string): RegExp {
+    let source = '';
+
+    for (const char of pattern) {
+        if (char === '*') {
+            source += '(.*)';
+        } else if (char === '?') {
+            source += '(.)';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`, 'i');
+}
@@ -0,0 +1,100 @@
+import path from 'path';
+import { familyPatternCovers, familyPatternSpecificity } from './family-sheets';
+import { ManufacturerAliasTable, resolveManufacturer } from './manufacturer-aliases';
+
+/**
+ * A document required by a kit, e.g. the keypad sheet of a drive package
+ */
+export interface KitDocument {
+    pdfPath: string;
+    // Short name shown in the results table, e.g. "Keypad"
+    label: string;
+}
+
+/**
+ * A kit or package part that needs several cut sheets. The part pattern is a glob
+ * over the part number ("ACS580-01-*"), separators ignored, like a family sheet pattern.
+ */
+export interface KitDefinition {
+    id: string;
+    // Empty to match the part pattern for any manufacturer
+    manufacturer: string;
+    partPattern: string;
+    documents: KitDocument[];
+}
+
+/**
+ * Where a document attached to a BOM line came from
+ */
+export type AttachmentSource = 'kit' | 'manual';
+
+/**
+ * A document merged under a BOM line in addition to its matched cut sheet
+ */
+export interface AttachedDocument {
+    pdfPath: string;
+    fileName: string;
+    source: AttachmentSource;
+    label?: string;
+    // The file was not found when the session was loaded
+    missing?: boolean;
+}
+
+/**
+ * Finds the kit covering a BOM line and lists its documents
+ * @param kits The kit definitions
+ * @param manufacturer The manufacturer name from the BOM
+ * @param partNumber The part number from the BOM
+ * @param manufacturerAliases The alias table used to compare manufacturers
+ * @returns The documents of the most specific covering kit, in kit order; empty if no kit covers the part
+ */
+export function expandKit(
+    kits: KitDefinition[],
+    manufacturer: string,
+    partNumber: string,
+    manufacturerAliases: ManufacturerAliasTable = {}
+): AttachedDocument[] {
+    const canonical = resolveManufacturer(manufacturer, manufacturerAliases).toLowerCase();
+
+    const kit = kits
+        .filter(candidate =>
+            (!candidate.manufacturer ||
+                resolveManufacturer(candidate.manufacturer, manufacturerAliases).toLowerCase() === canonical) &&
+            familyPatternCovers(candidate.partPattern, partNumber)
+        )
+        .sort((a, b) => familyPatternSpecificity(b.partPattern) - familyPatternSpecificity(a.partPattern))[0];
+
+    if (!kit) {
+        return [];
+    }
+
+    return kit.documents.map(document => ({
+        pdfPath: document.pdfPath,
+        fileName: path.basename(document.pdfPath),
+        source: 'kit',
+        label: document.label || undefined
+    }));
+}
+
+/**
+ * Checks every kit for an empty pattern or a missing document
+ * @param kits The kits to check
+ * @returns A description of the first problem, or null if all kits are valid
+ */
+export function validateKits(kits: KitDefinition[]): string | null {
+    for (const kit of kits) {
+        if (familyPatternSpecificity(kit.partPattern) === 0) {
+            return kit.partPattern
+                ? `Kit pattern "${kit.partPattern}" would cover every part number`
+                : 'A kit has no part pattern';
+        }
+        if (kit.documents.length === 0) {
+            return `Kit ${kit.partPattern} has no documents`;
+        }
+        if (kit.documents.some(document => !document.pdfPath)) {
+            return `A document of kit ${kit.partPattern} has no PDF`;
+        }
+    }
+
+    return null;
+}
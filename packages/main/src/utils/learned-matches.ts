@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import Store from 'electron-store';
+import type { ManufacturerAliasTable } from './manufacturer-aliases';
+import { LibraryFile, learnedMatchKey } from './pdf-service';
+
+/**
+ * A PDF chosen by hand for a manufacturer and part number, reused in later jobs
+ */
+export interface LearnedMatch {
+    key: string;
+    manufacturer: string;
+    partNumber: string;
+    pdfPath: string;
+    fileName: string;
+    learnedAt: string;
+}
+
+// Define the learned match schema
+interface LearnedMatchSchema {
+    learnedMatches: Record<string, LearnedMatch>;
+}
+
+// Initialize the store for learned matches
+const store = new Store<LearnedMatchSchema>({
+    name: 'learned-matches',
+    defaults: {
+        learnedMatches: {}
+    }
+});
+
+/**
+ * Lists every learned match for review
+ * @returns The learned matches, sorted by manufacturer and part number
+ */
+export function getLearnedMatches(): LearnedMatch[] {
+    return Object.values(store.get('learnedMatches') || {}).sort((a, b) =>
+        a.manufacturer.localeCompare(b.manufacturer) || a.partNumber.localeCompare(b.partNumber)
+    );
+}
+
+/**
+ * Gets the learned matches whose PDFs still exist, in the form the matcher consults. Keys are
+ * rebuilt from each match's manufacturer and part number with the current aliases, so editing
+ * the aliases does not strand matches stored under the old ones.
+ * @param manufacturerAliases The alias table the matcher resolves manufacturers with
+ * @returns Learned match key → PDF
+ */
+export function getLearnedMatchTable(manufacturerAliases: ManufacturerAliasTable): Record<string, LibraryFile> {
+    const table: Record<string, LibraryFile> = {};
+
+    // Oldest first, so the latest choice for a part wins when aliases now merge two entries
+    const learnedMatches = Object.values(store.get('learnedMatches') || {})
+        .sort((a, b) => a.learnedAt.localeCompare(b.learnedAt));
+
+    for (const match of learnedMatches) {
+        if (fs.existsSync(match.pdfPath)) {
+            const key = learnedMatchKey(match.manufacturer, match.partNumber, manufacturerAliases);
+            table[key] = { pdfPath: match.pdfPath, fileName: match.fileName };
+        }
+    }
+
+    return table;
+}
+
+/**
+ * Remembers the PDF chosen for a manufacturer and part number, replacing any earlier choice
+ * @param manufacturer The manufacturer name from the BOM
+ * @param partNumber The part number from the BOM
+ * @param pdfPath The chosen PDF
+ * @param manufacturerAliases The alias table used to resolve the manufacturer
+ * @returns The saved learned match
+ */
+export function saveLearnedMatch(
+    manufacturer: string,
+    partNumber: string,
+    pdfPath: string,
+    manufacturerAliases: ManufacturerAliasTable
+): LearnedMatch {
+    const key = learnedMatchKey(manufacturer, partNumber, manufacturerAliases);
+    const match: LearnedMatch = {
+        key,
+        manufacturer,
+        partNumber,
+        pdfPath,
+        fileName: path.basename(pdfPath),
+        learnedAt: new Date().toISOString()
+    };
+
+    // Replace earlier choices for the same part, including ones stored under keys from older aliases
+    const learnedMatches = Object.fromEntries(
+        Object.entries(store.get('learnedMatches') || {}).filter(([, existing]) =>
+            learnedMatchKey(existing.manufacturer, existing.partNumber, manufacturerAliases) !== key
+        )
+    );
+
+    store.set('learnedMatches', { ...learnedMatches, [key]: match });
+    return match;
+}
+
+/**
+ * Forgets a learned match. It is found by the key it was stored under, not one rebuilt from
+ * its manufacturer and part number, which changes when the manufacturer aliases are edited.
+ * @param key The stored key of the learned match
+ * @returns True if a learned match was removed
+ */
+export function deleteLearnedMatch(key: string): boolean {
+    const learnedMatches = { ...store.get('learnedMatches') };
+
+    if (!learnedMatches[key]) {
+        return false;
+    }
+
+    delete learnedMatches[key];
+    store.set('learnedMatches', learnedMatches);
+    return true;
+}
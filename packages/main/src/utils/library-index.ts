@@ -0,0 +1,460 @@
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { app } from 'electron';
+import isDev from 'electron-is-dev';
+import { matchesGlob } from './glob';
+import { tokenize } from './match-scoring';
+import { scanPdfDirectory, ScanOptions } from './pdf-service';
+import { PdfContent, extractPdfContent } from './pdf-text';
+import {
+    TokenIndex,
+    addToTokenIndex,
+    createTokenIndex,
+    removeFromTokenIndex
+} from './token-index';
+
+/**
+ * A cut sheet recorded in the library index
+ */
+export interface IndexedFile {
+    pdfPath: string;
+    fileName: string;
+    root: string;
+    relativePath: string;
+    // Normalized filename words used for matching
+    tokens: string[];
+    size: number;
+    mtimeMs: number;
+    // SHA-1 of the file contents, computed when the size or mtime changes
+    hash: string;
+    // Metadata (title, ModDate), plus the first-page text when content matching is enabled
+    content?: PdfContent;
+    // Number of pages of text requested when the content was extracted
+    contentPages?: number;
+}
+
+/**
+ * Options for indexing the library roots
+ */
+export interface LibraryIndexOptions extends ScanOptions {
+    // Pages of text to extract from each PDF; 0 or unset reads the metadata only
+    contentPages?: number;
+}
+
+/**
+ * Summary of the library index shown in the UI
+ */
+export interface LibraryIndexStatus {
+    fileCount: number;
+    updatedAt: string | null;
+    watching: string[];
+}
+
+// Shape of the index file on disk
+interface LibraryIndexData {
+    version: number;
+    updatedAt: string | null;
+    files: Record<string, IndexedFile>;
+}
+
+// Version 2 added the document metadata of every file
+const INDEX_VERSION = 2;
+
+// Wait for a burst of file system events to settle before indexing
+const WATCH_DEBOUNCE_MS = 500;
+const SAVE_DEBOUNCE_MS = 2000;
+
+let indexData: LibraryIndexData | null = null;
+let tokenIndex: TokenIndex = createTokenIndex();
+let saveTimer: NodeJS.Timeout | null = null;
+let changeTimer: NodeJS.Timeout | null = null;
+
+// Roots checked against the disk since the app started, with the options they were scanned with
+const syncedRoots = new Map<string, LibraryIndexOptions>();
+const watchers = new Map<string, fs.FSWatcher>();
+const pendingChanges = new Map<string, string>();
+
+/**
+ * Gets the path of the index file in the app's data directory
+ * @returns The index file path
+ */
+function getIndexFilePath(): string {
+    const dataPath = isDev
+        ? path.join(__dirname, '../../../..', 'data')
+        : path.join(app.getPath('userData'), 'data');
+
+    return path.join(dataPath, 'library-index.json');
+}
+
+/**
+ * Loads the index from disk the first time it is needed
+ * @returns The in-memory index
+ */
+async function loadIndex(): Promise<LibraryIndexData> {
+    if (indexData) {
+        return indexData;
+    }
+
+    try {
+        const content = await fsPromises.readFile(getIndexFilePath(), 'utf-8');
+        const parsed = JSON.parse(content) as LibraryIndexData;
+        indexData = parsed.version === INDEX_VERSION ? parsed : emptyIndex();
+    } catch {
+        // No index yet, or an unreadable one: start over
+        indexData = emptyIndex();
+    }
+
+    tokenIndex = createTokenIndex();
+    for (const file of Object.values(indexData.files)) {
+        addToTokenIndex(tokenIndex, file.pdfPath, file.fileName);
+    }
+
+    return indexData;
+}
+
+/**
+ * Creates an index with no files
+ */
+function emptyIndex(): LibraryIndexData {
+    return { version: INDEX_VERSION, updatedAt: null, files: {} };
+}
+
+/**
+ * Writes the index to disk
+ */
+async function saveIndex(): Promise<void> {
+    if (!indexData) {
+        return;
+    }
+
+    const filePath = getIndexFilePath();
+    const tempPath = `${filePath}.tmp`;
+
+    try {
+        await fsPromises.mkdir(path.dirname(filePath), { recursive: true });
+        await fsPromises.writeFile(tempPath, JSON.stringify(indexData), 'utf-8');
+        await fsPromises.rename(tempPath, filePath);
+    } catch (error) {
+        console.error('Error saving library index:', error);
+    }
+}
+
+/**
+ * Marks the index as changed and writes it once changes stop coming in
+ */
+function scheduleSave(): void {
+    if (indexData) {
+        indexData.updatedAt = new Date().toISOString();
+    }
+    if (saveTimer) {
+        clearTimeout(saveTimer);
+    }
+    saveTimer = setTimeout(() => {
+        saveTimer = null;
+        saveIndex();
+    }, SAVE_DEBOUNCE_MS);
+}
+
+/**
+ * Computes the SHA-1 of a file's contents
+ * @param filePath The file to hash
+ * @returns The hex digest
+ */
+function hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('sha1');
+        fs.createReadStream(filePath)
+            .on('data', chunk => hash.update(chunk))
+            .on('end', () => resolve(hash.digest('hex')))
+            .on('error', reject);
+    });
+}
+
+/**
+ * Adds or refreshes one file; unchanged files (same size and mtime) are not re-hashed or read
+ * again. The Info dictionary is always read, for revision dates; page text only for content matching.
+ * @param root The library root the file is under
+ * @param pdfPath The file path
+ * @param contentPages Pages of text to extract, or 0 to read the metadata only
+ */
+async function indexFile(root: string, pdfPath: string, contentPages = 0): Promise<void> {
+    const data = await loadIndex();
+    const stats = await fsPromises.stat(pdfPath);
+    const existing = data.files[pdfPath];
+
+    if (existing && existing.size === stats.size && existing.mtimeMs === stats.mtimeMs && existing.root === root) {
+        // Entries recorded without a hash get one once
+        if (!existing.hash) {
+            existing.hash = await hashFile(pdfPath);
+        }
+        // The metadata was never read, or content matching was switched on or asks for more pages
+        if (existing.contentPages === undefined || existing.contentPages < contentPages) {
+            existing.content = await extractPdfContent(pdfPath, contentPages);
+            existing.contentPages = contentPages;
+        }
+        return;
+    }
+
+    const fileName = path.basename(pdfPath);
+    const entry: IndexedFile = {
+        pdfPath,
+        fileName,
+        root,
+        relativePath: path.relative(root, pdfPath),
+        tokens: tokenize(fileName),
+        size: stats.size,
+        mtimeMs: stats.mtimeMs,
+        hash: await hashFile(pdfPath)
+    };
+
+    // The metadata (title, ModDate) is always read; page text only for content matching
+    entry.content = await extractPdfContent(pdfPath, contentPages);
+    entry.contentPages = contentPages;
+
+    if (existing) {
+        removeFromTokenIndex(tokenIndex, pdfPath, existing.fileName);
+    }
+    data.files[pdfPath] = entry;
+    addToTokenIndex(tokenIndex, pdfPath, fileName);
+}
+
+/**
+ * Removes a file, or every file under a folder, from the index
+ * @param targetPath The file or folder path
+ */
+function removeFromIndex(targetPath: string): void {
+    if (!indexData) {
+        return;
+    }
+
+    const folderPrefix = targetPath + path.sep;
+    for (const file of Object.values(indexData.files)) {
+        if (file.pdfPath === targetPath || file.pdfPath.startsWith(folderPrefix)) {
+            removeFromTokenIndex(tokenIndex, file.pdfPath, file.fileName);
+            delete indexData.files[file.pdfPath];
+        }
+    }
+}
+
+/**
+ * Brings the index for a folder in line with the disk
+ * @param root The library root
+ * @param folder The root itself or a folder below it
+ * @param scanOptions Depth limit, ignore patterns and text extraction for the root
+ */
+async function syncFolder(root: string, folder: string, scanOptions: LibraryIndexOptions): Promise<void> {
+    const data = await loadIndex();
+    const depth = path.relative(root, folder).split(path.sep).filter(Boolean).length;
+    const maxDepth = scanOptions.maxDepth === undefined ? undefined : Math.max(0, scanOptions.maxDepth - depth);
+
+    const found = (await scanPdfDirectory(folder, { ...scanOptions, maxDepth }))
+        .filter(file => !isIgnored(root, file.pdfPath, scanOptions));
+    const foundPaths = new Set(found.map(file => file.pdfPath));
+
+    for (const file of found) {
+        try {
+            await indexFile(root, file.pdfPath, scanOptions.contentPages);
+        } catch (error) {
+            console.warn(`Skipping ${file.pdfPath}:`, error);
+        }
+    }
+
+    // Drop files that disappeared from this folder
+    const folderPrefix = folder + path.sep;
+    for (const file of Object.values(data.files)) {
+        if (file.pdfPath.startsWith(folderPrefix) && !foundPaths.has(file.pdfPath)) {
+            removeFromTokenIndex(tokenIndex, file.pdfPath, file.fileName);
+            delete data.files[file.pdfPath];
+        }
+    }
+
+    scheduleSave();
+}
+
+/**
+ * Checks a path against the root's ignore patterns
+ */
+function isIgnored(root: string, targetPath: string, scanOptions: ScanOptions): boolean {
+    const relativePath = path.relative(root, targetPath);
+    return (scanOptions.ignorePatterns || []).some(pattern => matchesGlob(relativePath, pattern));
+}
+
+/**
+ * Applies the file system changes collected by the watchers
+ */
+async function processPendingChanges(): Promise<void> {
+    const changes = [...pendingChanges.entries()];
+    pendingChanges.clear();
+
+    for (const [changedPath, root] of changes) {
+        const scanOptions = syncedRoots.get(root) || {};
+
+        if (isIgnored(root, changedPath, scanOptions)) {
+            continue;
+        }
+
+        try {
+            const stats = await fsPromises.stat(changedPath);
+            if (stats.isDirectory()) {
+                await syncFolder(root, changedPath, scanOptions);
+            } else if (path.extname(changedPath).toLowerCase() === '.pdf') {
+                const depth = path.relative(root, changedPath).split(path.sep).length - 1;
+                if (scanOptions.maxDepth === undefined || depth <= scanOptions.maxDepth) {
+                    await indexFile(root, changedPath, scanOptions.contentPages);
+                    scheduleSave();
+                }
+            }
+        } catch {
+            // The file or folder is gone
+            removeFromIndex(changedPath);
+            scheduleSave();
+        }
+    }
+}
+
+/**
+ * Starts watching a library root for added, changed and removed files
+ * @param root The library root
+ */
+function watchRoot(root: string): void {
+    if (watchers.has(root)) {
+        return;
+    }
+
+    try {
+        const watcher = fs.watch(root, { recursive: true }, (_eventType, fileName) => {
+            if (!fileName) {
+                return;
+            }
+            pendingChanges.set(path.join(root, fileName.toString()), root);
+            if (changeTimer) {
+                clearTimeout(changeTimer);
+            }
+            changeTimer = setTimeout(() => {
+                changeTimer = null;
+                processPendingChanges().catch(error => console.error('Error updating library index:', error));
+            }, WATCH_DEBOUNCE_MS);
+        });
+
+        watcher.on('error', error => {
+            console.error(`Stopped watching ${root}:`, error);
+            watcher.close();
+            watchers.delete(root);
+        });
+
+        watchers.set(root, watcher);
+    } catch (error) {
+        console.error(`Unable to watch ${root}; changes will be picked up on the next rebuild:`, error);
+    }
+}
+
+/**
+ * Stops watching roots that are no longer part of the library
+ * @param roots The roots still in use
+ */
+function unwatchOtherRoots(roots: string[]): void {
+    for (const [root, watcher] of watchers.entries()) {
+        if (!roots.includes(root)) {
+            watcher.close();
+            watchers.delete(root);
+        }
+    }
+}
+
+/**
+ * Makes sure every root is indexed and watched. Roots already in the saved index are
+ * served immediately and re-checked against the disk in the background.
+ * @param roots The library roots
+ * @param scanOptions Depth limit, ignore patterns and text extraction
+ */
+async function ensureRoots(roots: string[], scanOptions: LibraryIndexOptions): Promise<void> {
+    const data = await loadIndex();
+    unwatchOtherRoots(roots);
+
+    for (const root of roots) {
+        const previousOptions = syncedRoots.get(root);
+        if (previousOptions && JSON.stringify(previousOptions) === JSON.stringify(scanOptions)) {
+            continue;
+        }
+        syncedRoots.set(root, scanOptions);
+
+        const known = Object.values(data.files).some(file => file.root === root);
+        if (known && !previousOptions) {
+            syncFolder(root, root, scanOptions).catch(error => console.error(`Error checking ${root}:`, error));
+        } else {
+            await syncFolder(root, root, scanOptions);
+        }
+
+        watchRoot(root);
+    }
+}
+
+/**
+ * Gets the indexed PDFs under the given roots, indexing new roots first
+ * @param roots The library roots
+ * @param scanOptions Depth limit, ignore patterns and text extraction
+ * @returns The files and the trigram index to match them with
+ */
+export async function getLibraryFiles(
+    roots: string[],
+    scanOptions: LibraryIndexOptions = {}
+): Promise<{ files: IndexedFile[]; tokenIndex: TokenIndex }> {
+    await ensureRoots(roots, scanOptions);
+
+    const files = Object.values((await loadIndex()).files).filter(file => roots.includes(file.root));
+    return { files, tokenIndex };
+}
+
+/**
+ * Discards the index and indexes the roots again from scratch
+ * @param roots The library roots
+ * @param scanOptions Depth limit, ignore patterns and text extraction
+ * @returns The status of the new index
+ */
+export async function rebuildLibraryIndex(
+    roots: string[],
+    scanOptions: LibraryIndexOptions = {}
+): Promise<LibraryIndexStatus> {
+    await loadIndex();
+    indexData = emptyIndex();
+    tokenIndex = createTokenIndex();
+    syncedRoots.clear();
+
+    await ensureRoots(roots, scanOptions);
+    await saveIndex();
+
+    return getLibraryIndexStatus(roots);
+}
+
+/**
+ * Summarizes the index for the given roots
+ * @param roots The library roots
+ * @returns Indexed file count, last update and watched roots
+ */
+export async function getLibraryIndexStatus(roots: string[]): Promise<LibraryIndexStatus> {
+    const data = await loadIndex();
+
+    return {
+        fileCount: Object.values(data.files).filter(file => roots.includes(file.root)).length,
+        updatedAt: data.updatedAt,
+        watching: [...watchers.keys()]
+    };
+}
+
+/**
+ * Stops the watchers and writes any pending changes, for use when the app quits
+ */
+export async function closeLibraryIndex(): Promise<void> {
+    for (const watcher of watchers.values()) {
+        watcher.close();
+    }
+    watchers.clear();
+
+    if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+        await saveIndex();
+    }
+}
@@ -0,0 +1,102 @@
+/**
+ * Canonical manufacturer name → other names the same manufacturer appears under
+ * in BOMs and cut sheet filenames (brands, abbreviations, former names)
+ */
+export type ManufacturerAliasTable = Record<string, string[]>;
+
+/**
+ * Default aliases for brands common in control panel BOMs
+ */
+export const DEFAULT_MANUFACTURER_ALIASES: ManufacturerAliasTable = {
+    'Schneider Electric': ['Schneider', 'SE', 'Square D', 'SquareD', 'SQD', 'Telemecanique', 'Modicon'],
+    'Allen-Bradley': ['AB', 'A-B', 'Rockwell', 'Rockwell Automation'],
+    'Siemens': ['Siemens Industry', 'Siemens AG'],
+    'ABB': ['ABB Inc', 'Baldor'],
+    'Eaton': ['Cutler-Hammer', 'Cutler Hammer', 'Moeller', 'Bussmann'],
+    'Phoenix Contact': ['Phoenix', 'PXC'],
+    'Weidmuller': ['Weidmüller', 'Weidmueller'],
+    'WAGO': [],
+    'Hoffman': ['nVent Hoffman', 'nVent'],
+    'Rittal': [],
+    'Omron': [],
+    'IDEC': [],
+    'Mitsubishi Electric': ['Mitsubishi', 'MELSEC'],
+    'Panduit': [],
+    'Littelfuse': [],
+    'Mersen': ['Ferraz Shawmut'],
+    'Banner Engineering': ['Banner'],
+    'Turck': [],
+    'AutomationDirect': ['Automation Direct', 'ADC'],
+    'Hammond Power Solutions': ['Hammond'],
+    'Lapp': ['Lapp Group', 'Lapp Kabel'],
+    'Pilz': [],
+    'Danfoss': [],
+    'Yaskawa': [],
+};
+
+/**
+ * Normalizes a manufacturer name for lookup in the alias table
+ * @param name The manufacturer name
+ * @returns Lowercase name without separators
+ */
+function normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[_\-.\s&]/g, '');
+}
+
+/**
+ * Finds the canonical name of a manufacturer
+ * @param name The manufacturer name as written in the BOM or filename
+ * @param table The alias table
+ * @returns The canonical name, or the name itself if it is not in the table
+ */
+export function resolveManufacturer(name: string, table: ManufacturerAliasTable): string {
+    const normalized = normalizeName(name);
+
+    for (const [canonical, aliases] of Object.entries(table)) {
+        if (normalizeName(canonical) === normalized || aliases.some(alias => normalizeName(alias) === normalized)) {
+            return canonical;
+        }
+    }
+
+    return name;
+}
+
+/**
+ * Lists every name a manufacturer may appear under
+ * @param name The manufacturer name as written in the BOM
+ * @param table The alias table
+ * @returns The name itself plus its canonical name and aliases, without duplicates
+ */
+export function manufacturerNames(name: string, table: ManufacturerAliasTable): string[] {
+    const canonical = resolveManufacturer(name, table);
+    const names = [name, canonical, ...(table[canonical] || [])];
+    const seen = new Set<string>();
+
+    return names.filter(candidate => {
+        const key = normalizeName(candidate);
+        if (!key || seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * Cleans up an edited alias table: trims names and drops empty entries
+ * @param table The table as edited by the user
+ * @returns The cleaned table
+ */
+export function sanitizeAliasTable(table: ManufacturerAliasTable): ManufacturerAliasTable {
+    const cleaned: ManufacturerAliasTable = {};
+
+    for (const [canonical, aliases] of Object.entries(table)) {
+        const name = canonical.trim();
+        if (!name) {
+            continue;
+        }
+        cleaned[name] = [...new Set((aliases || []).map(alias => alias.trim()).filter(Boolean))];
+    }
+
+    return cleaned;
+}
@@ -0,0 +1,79 @@
+/**
+ * A part number pattern that identifies the manufacturer of a catalog number,
+ * e.g. ^1492- → Allen-Bradley. Patterns are regular expressions tested against
+ * the part number, case-insensitively.
+ */
+export interface ManufacturerPattern {
+    pattern: string;
+    manufacturer: string;
+}
+
+/**
+ * Default patterns for catalog numbers common in control panel BOMs.
+ * Patterns are tried in order and the first one that matches wins.
+ */
+export const DEFAULT_MANUFACTURER_PATTERNS: ManufacturerPattern[] = [
+    // Terminal blocks, controllers, contactors, pilot devices
+    { pattern: '^(1492|1606|1734|1756|1769|1794|100|140M|700|800[FHT])-', manufacturer: 'Allen-Bradley' },
+    { pattern: '^(3R[TVHUW]|3S[BEU]|5S[TYJ]|6ES7|6EP)', manufacturer: 'Siemens' },
+    { pattern: '^(LC1|LC2|LRD|GV[23]|XB[45]|ZB[45]|ATV|ABL)', manufacturer: 'Schneider Electric' },
+    { pattern: '^(1S[A-Z]{2}\\d|ACS\\d|ACH\\d)', manufacturer: 'ABB' },
+    { pattern: '^(XT[CO]E|DIL[AEM]|PKZM|FAZ)', manufacturer: 'Eaton' },
+    { pattern: '^(221|750|787|857|2002|2004|2006)-', manufacturer: 'WAGO' }
+];
+
+/**
+ * A manufacturer inferred from a part number, with the pattern that identified it
+ */
+export interface ManufacturerInference {
+    manufacturer: string;
+    pattern: string;
+}
+
+/**
+ * Infers the manufacturer of a part number from the first pattern that matches it
+ * @param partNumber The part number from the BOM
+ * @param patterns The pattern table, in evaluation order
+ * @returns The manufacturer and pattern, or null if no pattern matches
+ */
+export function inferManufacturer(partNumber: string, patterns: ManufacturerPattern[]): ManufacturerInference | null {
+    const part = partNumber.trim();
+
+    for (const { pattern, manufacturer } of patterns) {
+        if (!pattern || !manufacturer) {
+            continue;
+        }
+        try {
+            if (new RegExp(pattern, 'i').test(part)) {
+                return { manufacturer, pattern };
+            }
+        } catch {
+            // Invalid patterns are rejected when saved; skip any that slipped through
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Checks every row of a manufacturer pattern table
+ * @param patterns The patterns to check
+ * @returns A description of the first problem, or null if all patterns are valid
+ */
+export function validateManufacturerPatterns(patterns: ManufacturerPattern[]): string | null {
+    for (const { pattern, manufacturer } of patterns) {
+        if (!manufacturer) {
+            return `Pattern "${pattern}" has no manufacturer`;
+        }
+        if (!pattern) {
+            return `The pattern for ${manufacturer} is empty`;
+        }
+        try {
+            new RegExp(pattern);
+        } catch (error) {
+            return `Invalid pattern for ${manufacturer}: ${error instanceof Error ? error.message : String(error)}`;
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,138 @@
+import Store from 'electron-store';
+import type { ColumnMapping } from './bom-parser';
+
+// Define the mapping profile store schema
+interface MappingProfileSchema {
+    profiles: Record<string, MappingProfile>;
+}
+
+/**
+ * A saved column mapping, e.g. one per customer BOM layout
+ */
+export interface MappingProfile {
+    name: string;
+    mapping: ColumnMapping;
+    /** Headers of the BOM the profile was saved from */
+    headers: string[];
+    updatedAt: string;
+}
+
+/**
+ * Share of headers two BOMs must have in common for a saved profile to be picked automatically
+ */
+const PROFILE_MATCH_THRESHOLD = 0.8;
+
+// Initialize the store for mapping profiles
+const store = new Store<MappingProfileSchema>({
+    name: 'mapping-profiles',
+    defaults: {
+        profiles: {}
+    }
+});
+
+/**
+ * Normalizes a header for comparison between BOM files
+ * @param header The header text
+ * @returns Lowercase header without separators
+ */
+function normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[_\-.\s]/g, '');
+}
+
+/**
+ * Lists all saved mapping profiles
+ * @returns Profiles sorted by name
+ */
+export function listMappingProfiles(): MappingProfile[] {
+    const profiles = store.get('profiles') || {};
+    return Object.values(profiles).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Saves (or replaces) a named mapping profile
+ * @param name The profile name
+ * @param mapping The column mapping
+ * @param headers Headers of the BOM the mapping was made for
+ * @returns The saved profile
+ */
+export function saveMappingProfile(name: string, mapping: ColumnMapping, headers: string[]): MappingProfile {
+    const profile: MappingProfile = {
+        name: name.trim(),
+        mapping,
+        headers,
+        updatedAt: new Date().toISOString()
+    };
+
+    const profiles = store.get('profiles') || {};
+    profiles[profile.name] = profile;
+    store.set('profiles', profiles);
+
+    return profile;
+}
+
+/**
+ * Deletes a saved mapping profile
+ * @param name The profile name
+ * @returns True if a profile was removed
+ */
+export function deleteMappingProfile(name: string): boolean {
+    const profiles = store.get('profiles') || {};
+
+    if (!profiles[name]) {
+        return false;
+    }
+
+    delete profiles[name];
+    store.set('profiles', profiles);
+    return true;
+}
+
+/**
+ * Finds the saved profile whose headers look the same as the given ones
+ * @param headers Headers of the BOM being imported
+ * @returns The best matching profile, or null if none is close enough
+ */
+export function findMappingProfileForHeaders(headers: string[]): MappingProfile | null {
+    const current = new Set(headers.map(normalizeHeader));
+    let bestProfile: MappingProfile | null = null;
+    let bestScore = 0;
+
+    for (const profile of listMappingProfiles()) {
+        // Every mapped column must exist in the new BOM
+        const mappedColumns = Object.values(profile.mapping).filter(Boolean) as string[];
+        if (!mappedColumns.every(column => current.has(normalizeHeader(column)))) {
+            continue;
+        }
+
+        // Compare the header sets (Jaccard similarity)
+        const saved = new Set(profile.headers.map(normalizeHeader));
+        const shared = [...saved].filter(header => current.has(header)).length;
+        const score = shared / new Set([...saved, ...current]).size;
+
+        if (score >= PROFILE_MATCH_THRESHOLD && score > bestScore) {
+            bestProfile = profile;
+            bestScore = score;
+        }
+    }
+
+    return bestProfile;
+}
+
+/**
+ * Resolves a profile mapping against the actual headers, which may differ in case or separators
+ * @param profile The saved profile
+ * @param headers Headers of the BOM being imported
+ * @returns The mapping using the BOM's own header names
+ */
+export function applyMappingProfile(profile: MappingProfile, headers: string[]): ColumnMapping {
+    const byNormalized = new Map(headers.map(header => [normalizeHeader(header), header]));
+    const mapping: ColumnMapping = {};
+
+    for (const [field, column] of Object.entries(profile.mapping) as Array<[keyof ColumnMapping, string | undefined]>) {
+        if (column && byNormalized.has(normalizeHeader(column))) {
+            mapping[field] = byNormalized.get(normalizeHeader(column));
+        }
+    }
+
+    return mapping;
+}
@@ -0,0 +1,286 @@
+/**
+ * How a part number was found in a filename, strongest first.
+ * A "prefix" match is the part number followed by a variant suffix;
+ * a "family" match is a series data sheet declared to cover the part.
+ * A "fuzzy" match (a near miss by edit distance) is only offered as an alternative.
+ */
+export type MatchType = 'exact' | 'prefix' | 'family' | 'token' | 'fuzzy';
+
+/**
+ * Base score for each kind of part number match
+ */
+export const MATCH_TYPE_WEIGHTS: Record<MatchType, number> = {
+    exact: 1,
+    prefix: 0.9,
+    family: 0.85,
+    token: 0.8,
+    fuzzy: 0.7
+};
+
+/**
+ * Canonical manufacturer → regular expression for the characters that may directly
+ * follow a part number and still name the same part (a variant suffix such as a coil
+ * voltage code). Anything else directly after the part number makes it a different part.
+ * An empty pattern allows no variant suffix; the "*" entry applies to other manufacturers.
+ */
+export type VariantSuffixTable = Record<string, string>;
+
+// Key of the pattern used for manufacturers without their own entry
+export const DEFAULT_SUFFIX_KEY = '*';
+
+/**
+ * Default variant suffix patterns
+ */
+export const DEFAULT_VARIANT_SUFFIXES: VariantSuffixTable = {
+    [DEFAULT_SUFFIX_KEY]: '^[a-z]{1,3}$',
+    // TeSys coil codes: LC1D09BD, LC1D09G7
+    'Schneider Electric': '^[a-z][a-z0-9]$',
+    // Order numbers are complete; options always follow a dash
+    'Siemens': '',
+    'ABB': '',
+    'Phoenix Contact': '',
+    'Allen-Bradley': ''
+};
+
+/**
+ * Score of a part number against one filename
+ */
+export interface PartNumberScore {
+    score: number;
+    matchType: MatchType;
+}
+
+// Longest run of adjacent filename words that is compared against a part number
+const MAX_RUN_TOKENS = 6;
+
+// Minimum similarity (1 - edit distance / length) for a fuzzy match
+const MIN_FUZZY_SIMILARITY = 0.7;
+
+// Part numbers shorter than this are too generic to match fuzzily
+const MIN_FUZZY_LENGTH = 4;
+
+// Score lost per extra character after a prefix match
+const PREFIX_PENALTY_PER_CHAR = 0.01;
+
+/**
+ * Splits a filename or part number into lowercase alphanumeric words
+ * @param value The filename or part number
+ * @returns The words, without the .pdf extension
+ */
+export function tokenize(value: string): string[] {
+    return value
+        .toLowerCase()
+        .replace(/\.pdf$/, '')
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean);
+}
+
+/**
+ * Joins every run of adjacent words, so "3RT2015-1BB41" can be found across a separator
+ * @param tokens The filename words
+ * @returns The joined runs
+ */
+function contiguousRuns(tokens: string[]): string[] {
+    const runs: string[] = [];
+
+    for (let start = 0; start < tokens.length; start++) {
+        let run = '';
+        for (let end = start; end < tokens.length && end - start < MAX_RUN_TOKENS; end++) {
+            run += tokens[end];
+            runs.push(run);
+        }
+    }
+
+    return runs;
+}
+
+/**
+ * Finds where the part number starts at a word boundary but ends inside a word
+ * @param tokens The filename words
+ * @param part The normalized part number
+ * @returns The characters following the part number in that word, for each occurrence
+ */
+function trailingCharacters(tokens: string[], part: string): string[] {
+    const suffixes: string[] = [];
+
+    for (let start = 0; start < tokens.length; start++) {
+        let run = '';
+        for (let end = start; end < tokens.length && run.length < part.length; end++) {
+            run += tokens[end];
+        }
+        if (run.length > part.length && run.startsWith(part)) {
+            suffixes.push(run.slice(part.length));
+        }
+    }
+
+    return suffixes;
+}
+
+/**
+ * Compiles the variant suffix pattern for a manufacturer
+ * @param manufacturer The canonical manufacturer name
+ * @param table The variant suffix table
+ * @returns The pattern, or null when no variant suffix is allowed
+ */
+export function variantSuffixFor(manufacturer: string, table: VariantSuffixTable): RegExp | null {
+    const key = Object.keys(table).find(name => name.toLowerCase() === manufacturer.toLowerCase());
+    const pattern = key !== undefined ? table[key] : table[DEFAULT_SUFFIX_KEY];
+
+    if (!pattern) {
+        return null;
+    }
+
+    try {
+        return new RegExp(pattern, 'i');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Checks every pattern in a variant suffix table
+ * @param table The table to check
+ * @returns A description of the first invalid pattern, or null if all are valid
+ */
+export function validateVariantSuffixes(table: VariantSuffixTable): string | null {
+    for (const [manufacturer, pattern] of Object.entries(table)) {
+        try {
+            new RegExp(pattern);
+        } catch (error) {
+            return `Invalid pattern for ${manufacturer}: ${error instanceof Error ? error.message : String(error)}`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings
+ * @param a First string
+ * @param b Second string
+ * @returns Number of single-character edits needed to turn a into b
+ */
+export function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+/**
+ * Scores how well a filename matches a part number
+ * @param fileName The PDF filename
+ * @param partNumber The part number from the BOM
+ * @param variantSuffix Characters allowed directly after the part number, or null for none
+ * @returns The best score and how it was matched, or null if the filename does not resemble the part
+ */
+export function scorePartNumber(
+    fileName: string,
+    partNumber: string,
+    variantSuffix: RegExp | null = null
+): PartNumberScore | null {
+    const partTokens = tokenize(partNumber);
+    const part = partTokens.join('');
+
+    if (!part) {
+        return null;
+    }
+
+    const fileTokens = tokenize(fileName);
+    const runs = contiguousRuns(fileTokens);
+
+    if (runs.includes(part)) {
+        return { score: MATCH_TYPE_WEIGHTS.exact, matchType: 'exact' };
+    }
+
+    // The part number runs into more characters of the same word: only a
+    // variant suffix keeps it the same part, so "LC1D09" does not match "LC1D093"
+    const suffixes = trailingCharacters(fileTokens, part);
+    const variants = suffixes.filter(suffix => variantSuffix !== null && variantSuffix.test(suffix));
+    if (variants.length > 0) {
+        const extra = Math.min(...variants.map(suffix => suffix.length));
+        return {
+            score: MATCH_TYPE_WEIGHTS.prefix - Math.min(extra, 10) * PREFIX_PENALTY_PER_CHAR,
+            matchType: 'prefix'
+        };
+    }
+
+    // Every word of the part number appears, but not next to each other
+    if (partTokens.length > 1 && partTokens.every(token => fileTokens.includes(token))) {
+        return { score: MATCH_TYPE_WEIGHTS.token, matchType: 'token' };
+    }
+
+    // The filename names a longer part that starts with this one
+    if (suffixes.length > 0) {
+        return null;
+    }
+
+    if (part.length < MIN_FUZZY_LENGTH) {
+        return null;
+    }
+
+    const maxLengthDifference = Math.max(2, Math.floor(part.length * 0.3));
+    let bestSimilarity = 0;
+
+    for (const run of runs) {
+        // Adding or dropping trailing characters names a different part, not a typo
+        if (Math.abs(run.length - part.length) > maxLengthDifference || run.startsWith(part) || part.startsWith(run)) {
+            continue;
+        }
+        const similarity = 1 - editDistance(run, part) / Math.max(run.length, part.length);
+        bestSimilarity = Math.max(bestSimilarity, similarity);
+    }
+
+    if (bestSimilarity >= MIN_FUZZY_SIMILARITY) {
+        return { score: MATCH_TYPE_WEIGHTS.fuzzy * bestSimilarity, matchType: 'fuzzy' };
+    }
+
+    return null;
+}
+
+/**
+ * Scores a part number against document text such as a page or a metadata field.
+ * Text is long enough to contain near misses and scattered words by chance, so only
+ * the exact part number, or the part number followed by a variant suffix, counts.
+ * @param text The document text
+ * @param partNumber The part number from the BOM
+ * @param variantSuffix Characters allowed directly after the part number, or null for none
+ * @returns The score and how it was matched, or null if the part number does not appear
+ */
+export function scorePartNumberInText(
+    text: string,
+    partNumber: string,
+    variantSuffix: RegExp | null = null
+): PartNumberScore | null {
+    const part = tokenize(partNumber).join('');
+
+    if (!part) {
+        return null;
+    }
+
+    const textTokens = tokenize(text);
+
+    if (contiguousRuns(textTokens).includes(part)) {
+        return { score: MATCH_TYPE_WEIGHTS.exact, matchType: 'exact' };
+    }
+
+    const variants = trailingCharacters(textTokens, part)
+        .filter(suffix => variantSuffix !== null && variantSuffix.test(suffix));
+    if (variants.length > 0) {
+        const extra = Math.min(...variants.map(suffix => suffix.length));
+        return {
+            score: MATCH_TYPE_WEIGHTS.prefix - Math.min(extra, 10) * PREFIX_PENALTY_PER_CHAR,
+            matchType: 'prefix'
+        };
+    }
+
+    return null;
+}
@@ -0,0 +1,135 @@
+import {
+    degrees,
+    PDFContentStream,
+    PDFFont,
+    PDFPage,
+    popGraphicsState,
+    pushGraphicsState,
+    rgb
+} from 'pdf-lib';
+import { toEncodableText } from './font-text';
+
+/**
+ * Where on the page the stamp is drawn
+ */
+export type StampPosition = 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+/**
+ * How the running stamp ("Page X of Y", project and item) is drawn on every page of the package
+ */
+export interface PageStampSettings {
+    enabled: boolean;
+    position: StampPosition;
+    fontSize: number;
+    // White box behind the text so it stays legible over vendor artwork
+    backing: boolean;
+}
+
+export const DEFAULT_PAGE_STAMP: PageStampSettings = {
+    enabled: false,
+    position: 'bottom-right',
+    fontSize: 8,
+    backing: true
+};
+
+const STAMP_POSITIONS: StampPosition[] = [
+    'top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right'
+];
+
+// Distance of the stamp from the page edges, and padding of the backing box
+const EDGE_MARGIN = 18;
+const BOX_PADDING = 3;
+// Long stamps are shrunk to fit the page width, but not below this size
+const MIN_FONT_SIZE = 5;
+
+/**
+ * Checks page stamp settings
+ * @param settings The settings to check
+ * @returns A description of the first problem, or null if the settings are valid
+ */
+export function validatePageStamp(settings: PageStampSettings): string | null {
+    if (!STAMP_POSITIONS.includes(settings.position)) {
+        return `Unknown stamp position: ${settings.position}`;
+    }
+    if (!Number.isFinite(settings.fontSize) || settings.fontSize < 5 || settings.fontSize > 24) {
+        return 'The stamp font size must be between 5 and 24 points';
+    }
+
+    return null;
+}
+
+/**
+ * Draws a one-line stamp on a page, upright as the page is displayed even when the
+ * page carries a /Rotate entry, as scanned and landscape cut sheets often do
+ * @param page The page to stamp
+ * @param raw The stamp text; characters the font cannot encode are replaced
+ * @param settings Position, font size and backing box
+ * @param font The font to draw with
+ */
+export function drawPageStamp(page: PDFPage, raw: string, settings: PageStampSettings, font: PDFFont): void {
+    const text = toEncodableText(raw, font);
+
+    // Vendor content can leave the graphics state changed (an unbalanced cm or q);
+    // wrap it in q ... Q so the stamp is drawn in the page's own coordinates
+    const context = page.doc.context;
+    page.node.wrapContentStreams(
+        context.register(PDFContentStream.of(context.obj({}), [pushGraphicsState()])),
+        context.register(PDFContentStream.of(context.obj({}), [popGraphicsState()]))
+    );
+
+    const box = page.getCropBox();
+    const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+    const sideways = rotation === 90 || rotation === 270;
+    // Size of the page as it is displayed
+    const width = sideways ? box.height : box.width;
+    const height = sideways ? box.width : box.height;
+
+    const fullWidth = font.widthOfTextAtSize(text, settings.fontSize);
+    const available = width - 2 * EDGE_MARGIN;
+    const size = fullWidth > available
+        ? Math.max(MIN_FONT_SIZE, settings.fontSize * available / fullWidth)
+        : settings.fontSize;
+    const textWidth = font.widthOfTextAtSize(text, size);
+
+    // Baseline start in displayed coordinates, from the bottom-left corner as seen
+    const [vertical, horizontal] = settings.position.split('-');
+    const u = horizontal === 'left'
+        ? EDGE_MARGIN
+        : horizontal === 'center' ? (width - textWidth) / 2 : width - EDGE_MARGIN - textWidth;
+    const v = vertical === 'top' ? height - EDGE_MARGIN - size : EDGE_MARGIN;
+
+    // Maps a displayed point back to the page's own coordinates
+    const toPage = (du: number, dv: number) => {
+        switch (rotation) {
+            case 90:
+                return { x: box.x + box.width - dv, y: box.y + du };
+            case 180:
+                return { x: box.x + box.width - du, y: box.y + box.height - dv };
+            case 270:
+                return { x: box.x + dv, y: box.y + box.height - du };
+            default:
+                return { x: box.x + du, y: box.y + dv };
+        }
+    };
+    const rotate = degrees(rotation);
+
+    if (settings.backing) {
+        // Descenders reach about a quarter of the font size below the baseline
+        const corner = toPage(u - BOX_PADDING, v - size * 0.25 - BOX_PADDING);
+        page.drawRectangle({
+            ...corner,
+            width: textWidth + 2 * BOX_PADDING,
+            height: size * 1.25 + 2 * BOX_PADDING,
+            color: rgb(1, 1, 1),
+            rotate
+        });
+    }
+
+    page.drawText(text, {
+        ...toPage(u, v),
+        size,
+        font,
+        color: rgb(0, 0, 0),
+        rotate
+    });
+}
@@ -54,6 +54,7 @@ async function csvFileMatchDemo(csvFilePath: string, pdfDirectory: string) {
         console.log('CSV File Match Results:');
         console.log(`Total Entries: ${results.summary.total}`);
         console.log(`Matched: ${results.summary.matched}`);
+        console.log(`Ambiguous: ${results.summary.ambiguous}`);
         console.log(`Not Found: ${results.summary.notFound}`);
 
         // Print detailed results
@@ -62,6 +63,8 @@ async function csvFileMatchDemo(csvFilePath: string, pdfDirectory: string) {
             console.log(`Entry ${index + 1}: ${result.manufacturer} ${result.partNumber}`);
             if (result.matched) {
                 console.log(`  ✅ Matched: ${result.fileName}`);
+            } else if (result.ambiguous) {
+                console.log(`  ❓ Ambiguous: ${result.contenders?.map(c => c.fileName).join(', ')}`);
             } else {
                 console.log(`  ❌ Not Found`);
             }
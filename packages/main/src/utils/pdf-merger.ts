@@ -1,8 +1,417 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { app } from 'electron';
-import { PDFDocument as PDFLib, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import {
+    PDFDict,
+    PDFDocument as PDFLib,
+    PDFFont,
+    PDFHexString,
+    PDFName,
+    PDFNumber,
+    PDFPage,
+    PDFRef,
+    rgb,
+    StandardFonts
+} from 'pdf-lib';
 import isDev from 'electron-is-dev';
+import { addCoverSheet, CoverSheetLayout, ProjectMetadata } from './cover-sheet';
+import { toEncodableText } from './font-text';
+import { drawPageStamp, PageStampSettings } from './page-stamp';
+
+/**
+ * A BOM line as listed in the table of contents
+ */
+export interface ProductInfo {
+    manufacturer: string;
+    partNumber: string;
+    fileName?: string;
+    quantity?: number;
+    tags?: string[];
+    description?: string;
+    // Discontinued part number this replacement part was substituted for
+    supersedes?: string;
+    // Group of the BOM the item belongs to (a panel or spec section); grouped items get a divider page
+    section?: string;
+}
+
+/**
+ * Optional parts of the submittal package around the merged documents
+ */
+export interface MergeOptions {
+    // Cover sheet added before the table of contents
+    cover?: {
+        metadata: ProjectMetadata;
+        layout: CoverSheetLayout;
+    };
+    // Running stamp drawn on every page of the package
+    stamp?: {
+        settings: PageStampSettings;
+        projectName?: string;
+        submittalNumber?: string;
+    };
+}
+
+/**
+ * A column of the table of contents
+ */
+interface TocColumn {
+    header: string;
+    x: number;
+    width: number;
+    value: (product: ProductInfo, index: number, page: number) => string;
+}
+
+/**
+ * A bookmark in the outline of the merged PDF
+ */
+interface OutlineEntry {
+    title: string;
+    page: PDFPage;
+    children?: OutlineEntry[];
+}
+
+/**
+ * A group heading in the table of contents, for a divider page
+ */
+interface TocGroupRow {
+    kind: 'group';
+    title: string;
+    // Page of the merged PDF the row points to
+    page: number;
+}
+
+/**
+ * A BOM line in the table of contents
+ */
+interface TocItemRow {
+    kind: 'item';
+    product: ProductInfo;
+    index: number;
+    page: number;
+}
+
+type TocRow = TocGroupRow | TocItemRow;
+
+/**
+ * Where a row of the table of contents is drawn
+ */
+interface TocRowPosition {
+    // Index of the table of contents page, 0 for the first
+    page: number;
+    y: number;
+}
+
+// Table of contents layout for a Letter page (612pt wide, 50pt margins)
+const PAGE_SIZE: [number, number] = [612, 792];
+const TOC_COLUMNS: TocColumn[] = [
+    { header: 'ITEM', x: 50, width: 25, value: (_product, index) => `${index + 1}` },
+    { header: 'MANUFACTURER', x: 78, width: 85, value: product => product.manufacturer },
+    { header: 'PART NUMBER', x: 168, width: 90, value: product => product.partNumber },
+    { header: 'QTY', x: 263, width: 27, value: product => (product.quantity !== undefined ? `${product.quantity}` : '') },
+    { header: 'TAGS', x: 295, width: 75, value: product => (product.tags || []).join(', ') },
+    { header: 'DESCRIPTION', x: 375, width: 145, value: product => product.description || '' },
+    // Page of the merged PDF where the item's first document starts
+    { header: 'PAGE', x: 525, width: 37, value: (_product, _index, page) => `${page}` }
+];
+const TOC_ROW_HEIGHT = 20;
+// Baseline of the first row on the first page (below the title block) and on continuation pages
+const TOC_FIRST_ROW_Y = 600;
+const TOC_CONTINUED_ROW_Y = 670;
+// Lowest baseline of a row, leaving room for a supersedes note and the bottom margin
+const TOC_BOTTOM_Y = 72;
+// Group of the lines without a value in the grouped column, placed after the other groups
+const UNGROUPED_TITLE = 'Other Items';
+
+/**
+ * Shortens text with an ellipsis so it fits within a column, after replacing the
+ * characters the font cannot encode
+ * @param raw The text to fit
+ * @param font The font the text is drawn with
+ * @param size The font size
+ * @param maxWidth The column width in points
+ * @returns The text, truncated if needed
+ */
+function fitText(raw: string, font: PDFFont, size: number, maxWidth: number): string {
+    const text = toEncodableText(raw, font);
+    if (font.widthOfTextAtSize(text, size) <= maxWidth) {
+        return text;
+    }
+
+    let truncated = text;
+    while (truncated.length > 0 && font.widthOfTextAtSize(`${truncated}...`, size) > maxWidth) {
+        truncated = truncated.slice(0, -1);
+    }
+
+    return `${truncated}...`;
+}
+
+/**
+ * Lays the table of contents rows out over as many pages as they need
+ * @param count The number of rows
+ * @returns The page and baseline of each row
+ */
+function layoutTocRows(count: number): TocRowPosition[] {
+    const positions: TocRowPosition[] = [];
+    let page = 0;
+    let y = TOC_FIRST_ROW_Y;
+
+    for (let index = 0; index < count; index++) {
+        if (y < TOC_BOTTOM_Y) {
+            page++;
+            y = TOC_CONTINUED_ROW_Y;
+        }
+        positions.push({ page, y });
+        y -= TOC_ROW_HEIGHT;
+    }
+
+    return positions;
+}
+
+/**
+ * Draws the column headers of the table of contents and the divider below them
+ * @param page The table of contents page
+ * @param y The baseline of the headers
+ * @param font The bold font
+ */
+function drawTocColumnHeaders(page: PDFPage, y: number, font: PDFFont): void {
+    for (const column of TOC_COLUMNS) {
+        page.drawText(column.header, {
+            x: column.x,
+            y,
+            size: 9,
+            font,
+            color: rgb(0, 0, 0)
+        });
+    }
+
+    page.drawLine({
+        start: { x: 50, y: y - 10 },
+        end: { x: 562, y: y - 10 },
+        thickness: 1,
+        color: rgb(0, 0, 0)
+    });
+}
+
+/**
+ * Draws a BOM line as a row of the table of contents or of a divider page
+ * @param page The page to draw on
+ * @param row The line and the page its documents start on
+ * @param y The baseline of the row
+ * @param font The regular font
+ */
+function drawItemRow(page: PDFPage, row: TocItemRow, y: number, font: PDFFont): void {
+    // Draw each column, truncated to its width
+    for (const column of TOC_COLUMNS) {
+        page.drawText(fitText(column.value(row.product, row.index, row.page), font, 9, column.width), {
+            x: column.x,
+            y,
+            size: 9,
+            font,
+            color: rgb(0, 0, 0)
+        });
+    }
+
+    // Note the substitution so the reviewer sees it, on a second line
+    // under the part number, running below the QTY and TAGS columns up to the description
+    if (row.product.supersedes) {
+        const partColumn = TOC_COLUMNS.find(column => column.header === 'PART NUMBER') as TocColumn;
+        const descriptionColumn = TOC_COLUMNS.find(column => column.header === 'DESCRIPTION') as TocColumn;
+        const noteWidth = descriptionColumn.x - partColumn.x - 5;
+        page.drawText(fitText(`supersedes ${row.product.supersedes}`, font, 7, noteWidth), {
+            x: partColumn.x,
+            y: y - 9,
+            size: 7,
+            font,
+            color: rgb(0.3, 0.3, 0.3)
+        });
+    }
+}
+
+/**
+ * Draws a group heading as a row of the table of contents, across the columns up to PAGE
+ * @param page The table of contents page
+ * @param row The group and the page of its divider
+ * @param y The baseline of the row
+ * @param font The bold font
+ */
+function drawGroupRow(page: PDFPage, row: TocGroupRow, y: number, font: PDFFont): void {
+    const pageColumn = TOC_COLUMNS[TOC_COLUMNS.length - 1];
+    page.drawText(fitText(row.title, font, 10, pageColumn.x - TOC_COLUMNS[0].x - 5), {
+        x: TOC_COLUMNS[0].x,
+        y,
+        size: 10,
+        font,
+        color: rgb(0, 0, 0)
+    });
+    page.drawText(`${row.page}`, {
+        x: pageColumn.x,
+        y,
+        size: 9,
+        font,
+        color: rgb(0, 0, 0)
+    });
+}
+
+/**
+ * Adds a divider page announcing a group, with the title and the lines that follow it
+ * @param pdf The document; the divider is added as its next page
+ * @param title The group title, e.g. a panel name or spec section
+ * @param items The lines of the group
+ * @param fonts The regular and bold fonts to draw with
+ */
+function addDividerPage(pdf: PDFLib, title: string, items: TocItemRow[], fonts: { regular: PDFFont; bold: PDFFont }): void {
+    const page = pdf.addPage(PAGE_SIZE);
+
+    page.drawText(fitText(title, fonts.bold, 24, PAGE_SIZE[0] - 100), {
+        x: 50,
+        y: 700,
+        size: 24,
+        font: fonts.bold,
+        color: rgb(0, 0, 0)
+    });
+
+    page.drawText(`${items.length} ${items.length === 1 ? 'item' : 'items'}`, {
+        x: 50,
+        y: 670,
+        size: 12,
+        font: fonts.regular,
+        color: rgb(0, 0, 0)
+    });
+
+    drawTocColumnHeaders(page, 630, fonts.bold);
+
+    // The list stays on one page; the last row notes any items that did not fit
+    const positions = layoutTocRows(items.length).filter(position => position.page === 0);
+    const shown = positions.length < items.length ? positions.length - 1 : items.length;
+    for (let index = 0; index < shown; index++) {
+        drawItemRow(page, items[index], positions[index].y, fonts.regular);
+    }
+    if (shown < items.length) {
+        page.drawText(`... and ${items.length - shown} more, listed in the table of contents`, {
+            x: 50,
+            y: positions[shown].y,
+            size: 9,
+            font: fonts.regular,
+            color: rgb(0.3, 0.3, 0.3)
+        });
+    }
+}
+
+/**
+ * Orders BOM lines by group, groups in order of first appearance and lines without a group last
+ * @param productInfo The BOM lines, in BOM order
+ * @returns The line indices in merge order
+ */
+function orderByGroup(productInfo: ProductInfo[]): number[] {
+    const titles = [...new Set(productInfo.map(product => product.section).filter(Boolean))];
+    const rank = (product: ProductInfo) => (product.section ? titles.indexOf(product.section) : titles.length);
+
+    return productInfo
+        .map((_product, index) => index)
+        .sort((a, b) => rank(productInfo[a]) - rank(productInfo[b]) || a - b);
+}
+
+/**
+ * Makes an area of a page a link to another page of the same document
+ * @param page The page that gets the link
+ * @param rect The clickable area as [left, bottom, right, top]
+ * @param target The page the link jumps to
+ */
+function addPageLink(page: PDFPage, rect: [number, number, number, number], target: PDFPage): void {
+    const context = page.doc.context;
+    const link = context.register(context.obj({
+        Type: 'Annot',
+        Subtype: 'Link',
+        Rect: rect,
+        // No visible border; the row itself is the link
+        Border: [0, 0, 0],
+        Dest: [target.ref, 'Fit']
+    }));
+    page.node.addAnnot(link);
+}
+
+/**
+ * Turns the table of contents rows into bookmarks, one per line, under a parent bookmark per group
+ * @param rows The table of contents rows, in merge order
+ * @param pages Every page of the merged PDF
+ * @returns The top-level bookmarks
+ */
+function buildOutline(rows: TocRow[], pages: PDFPage[]): OutlineEntry[] {
+    const entries: OutlineEntry[] = [];
+    let group: OutlineEntry | undefined;
+
+    for (const row of rows) {
+        if (row.kind === 'group') {
+            group = { title: row.title, page: pages[row.page - 1], children: [] };
+            entries.push(group);
+            continue;
+        }
+
+        const entry: OutlineEntry = {
+            title: `${row.index + 1}. ${row.product.manufacturer} ${row.product.partNumber}`,
+            page: pages[row.page - 1]
+        };
+        (group?.children || entries).push(entry);
+    }
+
+    return entries;
+}
+
+/**
+ * Writes bookmarks as the document outline, shown when the PDF is opened
+ * @param pdf The document
+ * @param entries The top-level bookmarks; groups are written expanded
+ */
+function addOutline(pdf: PDFLib, entries: OutlineEntry[]): void {
+    const context = pdf.context;
+
+    // Writes one level of siblings linked to each other and their parent, returning its visible count
+    const writeLevel = (items: OutlineEntry[], parent: PDFRef): { first: PDFRef; last: PDFRef; count: number } => {
+        const refs = items.map(() => context.nextRef());
+        let count = 0;
+
+        items.forEach((item, index) => {
+            const dict = context.obj({
+                Title: PDFHexString.fromText(item.title),
+                Parent: parent,
+                Dest: [item.page.ref, 'Fit']
+            }) as PDFDict;
+
+            if (index > 0) {
+                dict.set(PDFName.of('Prev'), refs[index - 1]);
+            }
+            if (index < refs.length - 1) {
+                dict.set(PDFName.of('Next'), refs[index + 1]);
+            }
+
+            count++;
+            if (item.children && item.children.length > 0) {
+                const level = writeLevel(item.children, refs[index]);
+                dict.set(PDFName.of('First'), level.first);
+                dict.set(PDFName.of('Last'), level.last);
+                dict.set(PDFName.of('Count'), PDFNumber.of(level.count));
+                count += level.count;
+            }
+
+            context.assign(refs[index], dict);
+        });
+
+        return { first: refs[0], last: refs[refs.length - 1], count };
+    };
+
+    const outlineRef = context.nextRef();
+    const level = writeLevel(entries, outlineRef);
+    context.assign(outlineRef, context.obj({
+        Type: 'Outlines',
+        First: level.first,
+        Last: level.last,
+        Count: level.count
+    }));
+
+    pdf.catalog.set(PDFName.of('Outlines'), outlineRef);
+    // Open with the bookmarks panel showing
+    pdf.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
 
 /**
  * Creates a directory for storing merged PDFs
@@ -26,29 +435,31 @@ async function ensureMergedPdfDirectory(): Promise<string> {
 
 /**
  * Merges multiple PDF files into a single PDF
- * @param pdfPaths Array of paths to PDF files to merge
+ * @param pdfPaths The PDFs to merge, one entry per BOM line; a line with several
+ * documents (a kit, or sheets added by hand) lists them all, in order, so they follow its TOC entry
  * @param outputFileName Optional name for the output file
  * @param outputDirectory Optional user-selected directory to save the file
- * @param productInfo Optional information about the products for the table of contents
+ * @param productInfo Optional information about the products for the table of contents; when any product
+ * has a section, lines are ordered by section and each section starts with a divider page
+ * @param options Optional cover sheet and page stamp
  * @returns Path to the merged PDF file
  */
 export async function mergePdfs(
-    pdfPaths: string[],
+    pdfPaths: Array<string | string[]>,
     outputFileName?: string,
     outputDirectory?: string,
-    productInfo?: Array<{
-        manufacturer: string;
-        partNumber: string;
-        fileName?: string;
-    }>
+    productInfo?: ProductInfo[],
+    options: MergeOptions = {}
 ): Promise<string> {
     try {
         if (!pdfPaths.length) {
             throw new Error('No PDF paths provided');
         }
 
+        const documentPaths = pdfPaths.flat();
+
         // Ensure all paths exist
-        for (const pdfPath of pdfPaths) {
+        for (const pdfPath of documentPaths) {
             await fs.access(pdfPath).catch(() => {
                 throw new Error(`PDF file not found: ${pdfPath}`);
             });
@@ -77,143 +488,176 @@ export async function mergePdfs(
         // Use pdf-lib to merge PDFs
         const mergedPdf = await PDFLib.create();
 
-        // Add fonts for the table of contents
+        // Add fonts for the cover sheet and table of contents
         const helveticaBold = await mergedPdf.embedFont(StandardFonts.HelveticaBold);
         const helvetica = await mergedPdf.embedFont(StandardFonts.Helvetica);
 
-        // Create a table of contents page if product info is provided
-        if (productInfo && productInfo.length > 0) {
-            const tocPage = mergedPdf.addPage([612, 792]); // Letter size
-
-            // Add title
-            tocPage.drawText('SUBMITTAL PACKAGE', {
-                x: 50,
-                y: 730,
-                size: 24,
-                font: helveticaBold,
-                color: rgb(0, 0, 0)
-            });
+        // Grouped packages list each group's lines together, behind a divider page
+        const grouped = Boolean(productInfo?.some(product => product.section));
+        const order = grouped && productInfo ? orderByGroup(productInfo) : pdfPaths.map((_line, index) => index);
+        const products = productInfo ? order.map(index => productInfo[index]) : [];
+        const groupOf = (product: ProductInfo) => product.section || UNGROUPED_TITLE;
 
-            tocPage.drawText('TABLE OF CONTENTS', {
-                x: 50,
-                y: 700,
-                size: 16,
-                font: helveticaBold,
-                color: rgb(0, 0, 0)
-            });
+        // Load every document first so the table of contents can give real page numbers
+        const lineDocuments: PDFLib[][] = [];
+        for (const index of order) {
+            const documents: PDFLib[] = [];
+            for (const pdfPath of [pdfPaths[index]].flat()) {
+                documents.push(await PDFLib.load(await fs.readFile(pdfPath)));
+            }
+            lineDocuments.push(documents);
+        }
 
-            // Add date
-            const currentDate = new Date().toLocaleDateString();
-            tocPage.drawText(`Date: ${currentDate}`, {
-                x: 50,
-                y: 670,
-                size: 12,
-                font: helvetica,
-                color: rgb(0, 0, 0)
+        // The cover sheet comes first, ahead of the table of contents
+        const coverPageCount = options.cover ? 1 : 0;
+        if (options.cover) {
+            await addCoverSheet(mergedPdf, options.cover.metadata, options.cover.layout, {
+                regular: helvetica,
+                bold: helveticaBold
             });
+        }
 
-            // Add table header
-            tocPage.drawText('ITEM', {
-                x: 50,
-                y: 630,
-                size: 12,
-                font: helveticaBold,
-                color: rgb(0, 0, 0)
-            });
+        // One row per line, with a heading row where each group starts
+        const tocRows: TocRow[] = [];
+        products.forEach((product, index) => {
+            if (grouped && (index === 0 || groupOf(products[index - 1]) !== groupOf(product))) {
+                tocRows.push({ kind: 'group', title: groupOf(product), page: 0 });
+            }
+            tocRows.push({ kind: 'item', product, index, page: 0 });
+        });
 
-            tocPage.drawText('MANUFACTURER', {
-                x: 100,
-                y: 630,
-                size: 12,
-                font: helveticaBold,
-                color: rgb(0, 0, 0)
-            });
+        // Create the table of contents pages if product info is provided
+        const rowPositions = layoutTocRows(tocRows.length);
+        const tocPages: PDFPage[] = [];
+        // Group heading of each line that starts a group, by line index
+        const groupStarts = new Map<number, TocGroupRow>();
+        if (tocRows.length > 0) {
+            const tocPageCount = rowPositions[rowPositions.length - 1].page + 1;
 
-            tocPage.drawText('PART NUMBER', {
-                x: 300,
-                y: 630,
-                size: 12,
-                font: helveticaBold,
-                color: rgb(0, 0, 0)
+            // Each row starts after the cover, the table of contents and every page before it;
+            // a group's divider takes one page ahead of its first line
+            let nextPage = coverPageCount + tocPageCount + 1;
+            tocRows.forEach((row, position) => {
+                row.page = nextPage;
+                if (row.kind === 'group') {
+                    groupStarts.set((tocRows[position + 1] as TocItemRow).index, row);
+                    nextPage++;
+                } else {
+                    nextPage += lineDocuments[row.index].reduce((total, document) => total + document.getPageCount(), 0);
+                }
             });
 
-            tocPage.drawText('PAGE', {
-                x: 500,
-                y: 630,
-                size: 12,
-                font: helveticaBold,
-                color: rgb(0, 0, 0)
-            });
+            for (let pageIndex = 0; pageIndex < tocPageCount; pageIndex++) {
+                const tocPage = mergedPdf.addPage(PAGE_SIZE);
+                tocPages.push(tocPage);
 
-            // Add divider line
-            tocPage.drawLine({
-                start: { x: 50, y: 620 },
-                end: { x: 562, y: 620 },
-                thickness: 1,
-                color: rgb(0, 0, 0)
-            });
+                if (pageIndex > 0) {
+                    tocPage.drawText('TABLE OF CONTENTS (CONTINUED)', {
+                        x: 50,
+                        y: 730,
+                        size: 16,
+                        font: helveticaBold,
+                        color: rgb(0, 0, 0)
+                    });
+                    drawTocColumnHeaders(tocPage, 700, helveticaBold);
+                    continue;
+                }
 
-            // Add items
-            let y = 600;
-            productInfo.forEach((product, index) => {
-                // Draw item number
-                tocPage.drawText(`${index + 1}`, {
+                // Add title
+                tocPage.drawText('SUBMITTAL PACKAGE', {
                     x: 50,
-                    y,
-                    size: 11,
-                    font: helvetica,
+                    y: 730,
+                    size: 24,
+                    font: helveticaBold,
                     color: rgb(0, 0, 0)
                 });
 
-                // Draw manufacturer (limit to 25 chars)
-                const manufacturer = product.manufacturer.length > 25
-                    ? product.manufacturer.substring(0, 22) + '...'
-                    : product.manufacturer;
-
-                tocPage.drawText(manufacturer, {
-                    x: 100,
-                    y,
-                    size: 11,
-                    font: helvetica,
-                    color: rgb(0, 0, 0)
-                });
-
-                // Draw part number
-                tocPage.drawText(product.partNumber, {
-                    x: 300,
-                    y,
-                    size: 11,
-                    font: helvetica,
+                tocPage.drawText('TABLE OF CONTENTS', {
+                    x: 50,
+                    y: 700,
+                    size: 16,
+                    font: helveticaBold,
                     color: rgb(0, 0, 0)
                 });
 
-                // Draw page number (starts at 2 because TOC is page 1)
-                tocPage.drawText(`${index + 2}`, {
-                    x: 500,
-                    y,
-                    size: 11,
+                // Add date
+                const currentDate = new Date().toLocaleDateString();
+                tocPage.drawText(`Date: ${currentDate}`, {
+                    x: 50,
+                    y: 670,
+                    size: 12,
                     font: helvetica,
                     color: rgb(0, 0, 0)
                 });
 
-                // Decrease y for next row
-                y -= 20;
+                drawTocColumnHeaders(tocPage, 630, helveticaBold);
+            }
 
-                // If we run out of space, we should create a new page
-                // but for simplicity we'll just continue on the same page
-                if (y < 100) {
-                    y = 600;
+            // Add group headings and items
+            tocRows.forEach((row, position) => {
+                const { page, y } = rowPositions[position];
+                if (row.kind === 'group') {
+                    drawGroupRow(tocPages[page], row, y, helveticaBold);
+                } else {
+                    drawItemRow(tocPages[page], row, y, helvetica);
                 }
             });
         }
 
-        // Add each PDF in order
-        for (const pdfPath of pdfPaths) {
-            const pdfBytes = await fs.readFile(pdfPath);
-            const pdf = await PDFLib.load(pdfBytes);
-            const copiedPages = await mergedPdf.copyPages(pdf, pdf.getPageIndices());
-            copiedPages.forEach((page: PDFPage) => {
-                mergedPdf.addPage(page);
+        // Stamp label of every page from here on: the group on a divider, the item on its pages
+        const pageLabels: string[] = [];
+
+        // Add each PDF in order, every document of a line before the next line
+        // and the divider of each group before its first line
+        for (let index = 0; index < lineDocuments.length; index++) {
+            const group = groupStarts.get(index);
+            if (group) {
+                const items = tocRows.filter(
+                    (row): row is TocItemRow => row.kind === 'item' && groupOf(row.product) === group.title
+                );
+                addDividerPage(mergedPdf, group.title, items, { regular: helvetica, bold: helveticaBold });
+                pageLabels.push(group.title);
+            }
+
+            const product = products[index];
+            const itemLabel = [`Item ${index + 1}`, product?.tags?.join(', '), product?.partNumber]
+                .filter(Boolean)
+                .join(' · ');
+
+            for (const pdf of lineDocuments[index]) {
+                const copiedPages = await mergedPdf.copyPages(pdf, pdf.getPageIndices());
+                copiedPages.forEach((page: PDFPage) => {
+                    mergedPdf.addPage(page);
+                    pageLabels.push(itemLabel);
+                });
+            }
+        }
+
+        // Link each TOC row to its divider or item's first page, and bookmark every group and item
+        if (tocRows.length > 0) {
+            const pages = mergedPdf.getPages();
+            tocRows.forEach((row, position) => {
+                const { page, y } = rowPositions[position];
+                addPageLink(tocPages[page], [50, y - 11, 562, y + 9], pages[row.page - 1]);
+            });
+            addOutline(mergedPdf, buildOutline(tocRows, pages));
+        }
+
+        // Stamp every page, the cover and table of contents included, with its place in the package
+        if (options.stamp) {
+            const { settings, projectName, submittalNumber } = options.stamp;
+            const project = [projectName, submittalNumber && `Submittal ${submittalNumber}`]
+                .filter(Boolean)
+                .join(' · ');
+            const pages = mergedPdf.getPages();
+            // The cover and table of contents pages come before the labelled ones
+            const leadingPages = pages.length - pageLabels.length;
+            pages.forEach((page, pageIndex) => {
+                const label = pageIndex < leadingPages ? '' : pageLabels[pageIndex - leadingPages];
+                const text = [project, label, `Page ${pageIndex + 1} of ${pages.length}`]
+                    .filter(Boolean)
+                    .join('   |   ');
+                drawPageStamp(page, text, settings, helvetica);
             });
         }
 
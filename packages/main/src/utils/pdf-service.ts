@@ -1,13 +1,206 @@
 import fs from 'fs/promises';
 import path from 'path';
+import { matchesGlob } from './glob';
+import type { BomEntry } from './bom-parser';
+import { FilenameRule, describeFilenameRule, findRuleMatches } from './filename-rules';
+import { FamilySheet, familyPatternSpecificity, findCoveringSheets } from './family-sheets';
+import { compareRevisions, parseRevision } from './revisions';
+import { Supersession, findReplacements } from './supersessions';
+import { AttachedDocument, KitDefinition, expandKit } from './kits';
+import {
+    DEFAULT_MANUFACTURER_ALIASES,
+    ManufacturerAliasTable,
+    manufacturerNames,
+    resolveManufacturer
+} from './manufacturer-aliases';
+import {
+    DEFAULT_VARIANT_SUFFIXES,
+    MATCH_TYPE_WEIGHTS,
+    MatchType,
+    VariantSuffixTable,
+    scorePartNumber,
+    scorePartNumberInText,
+    tokenize,
+    variantSuffixFor
+} from './match-scoring';
+import type { PdfContent } from './pdf-text';
+import { TokenIndex, buildTokenIndex, lookupTokenIndex } from './token-index';
 
 interface PdfMatch {
     manufacturer: string;
     partNumber: string;
     pdfPath: string;
     fileName: string;
+    // Library root the file was found under, and its path relative to that root
+    root: string;
+    relativePath: string;
 }
 
+/**
+ * How library folders are walked
+ */
+export interface ScanOptions {
+    // Folder levels below each root to descend into (0 = the root only)
+    maxDepth?: number;
+    // Glob patterns for files and folders to skip, relative to the root
+    ignorePatterns?: string[];
+}
+
+const DEFAULT_MAX_DEPTH = 8;
+
+/**
+ * A PDF offered to the matcher; the root and relative path give its folders as context,
+ * and the extracted content lets the part number be found inside the document
+ */
+export type LibraryFile = {
+    fileName: string;
+    pdfPath: string;
+    root?: string;
+    relativePath?: string;
+    content?: PdfContent;
+};
+
+/**
+ * Where in a PDF the part number was found; "learned" PDFs were chosen by hand for the same
+ * part before, "rule" PDFs were named by a user-defined filename rule, and "kit" PDFs are
+ * the documents of a kit definition covering the part
+ */
+export type MatchSource = 'filename' | 'metadata' | 'pageText' | 'learned' | 'rule' | 'kit';
+
+/**
+ * A BOM line to match; only manufacturer and part number are required
+ */
+export type BomLine = Pick<BomEntry, 'manufacturer' | 'partNumber'> &
+    Partial<Pick<BomEntry, 'quantity' | 'description' | 'tags' | 'sourceLine' | 'sourceLines' | 'inferredFrom' | 'section'>>;
+
+/**
+ * A PDF that could satisfy a BOM line, with how confident the matcher is
+ */
+export interface MatchCandidate {
+    fileName: string;
+    pdfPath: string;
+    root?: string;
+    confidence: number;
+    matchType: MatchType;
+    source?: MatchSource;
+    // Page the part number was found on, for page text matches
+    page?: number;
+    // The filename rule that selected the PDF, for rule matches
+    rule?: string;
+    // The covered part pattern, for family sheet matches
+    family?: string;
+    // Revision and date of the sheet, from its filename or its ModDate
+    revision?: string;
+    sheetDate?: string;
+    // A newer revision of the same sheet is also a candidate
+    olderRevision?: boolean;
+    // The sheet is older than the configured age
+    stale?: boolean;
+}
+
+/**
+ * Match status of a single BOM line, carrying the BOM fields needed for the submittal
+ */
+export interface BomMatchResult {
+    manufacturer: string;
+    partNumber: string;
+    matched: boolean;
+    pdfPath?: string;
+    fileName?: string;
+    // Library root the chosen PDF lives under
+    root?: string;
+    // Confidence of the chosen PDF, from 0 to 1
+    confidence?: number;
+    matchType?: MatchType;
+    source?: MatchSource;
+    page?: number;
+    rule?: string;
+    family?: string;
+    revision?: string;
+    sheetDate?: string;
+    stale?: boolean;
+    // The chosen PDF should be checked by a person
+    lowConfidence?: boolean;
+    // Several PDFs match equally well; nothing is chosen until the user picks one
+    ambiguous?: boolean;
+    contenders?: MatchCandidate[];
+    // Next best candidates, or the near misses when nothing matched
+    alternatives?: MatchCandidate[];
+    quantity?: number;
+    description?: string;
+    tags?: string[];
+    sourceLines?: number[];
+    // Group from the BOM's group-by column
+    section?: string;
+    // Pattern the manufacturer was inferred from, until a reviewer confirms it
+    inferredFrom?: string;
+    // The discontinued BOM part this line's replacement part stands in for
+    supersedes?: { manufacturer: string; partNumber: string };
+    // Further documents merged under this line after its cut sheet, in order
+    attachments?: AttachedDocument[];
+}
+
+/**
+ * Counts of matched and unmatched BOM lines
+ */
+export interface MatchSummary {
+    total: number;
+    matched: number;
+    ambiguous: number;
+    notFound: number;
+}
+
+/**
+ * Settings that tune how BOM lines are matched to PDFs
+ */
+export interface MatchOptions {
+    // Alias table consulted so any name of a manufacturer satisfies the match
+    manufacturerAliases?: ManufacturerAliasTable;
+    // Per-manufacturer characters allowed directly after a part number
+    variantSuffixes?: VariantSuffixTable;
+    // Number of alternative candidates returned per BOM line (default 5)
+    maxCandidates?: number;
+    // Search the extracted metadata and page text of the PDFs when the filename is not enough
+    contentMatching?: boolean;
+    // PDFs chosen by hand in earlier jobs, keyed by learnedMatchKey; used before any scoring
+    learnedMatches?: Record<string, LibraryFile>;
+    // Per-manufacturer part number → filename rules, evaluated ahead of generic matching
+    filenameRules?: FilenameRule[];
+    // Series data sheets and the part patterns they cover, used when nothing names the exact part
+    familySheets?: FamilySheet[];
+    // Sheets dated more than this many years ago are flagged as possibly stale (0 or unset: never)
+    staleAfterYears?: number;
+    // Discontinued parts and their replacements, tried when a part has no match of its own
+    supersessions?: Supersession[];
+    // Kit or package parts and the documents each one needs
+    kits?: KitDefinition[];
+}
+
+// Confidence multiplier when the filename does not name the manufacturer
+const MISSING_MANUFACTURER_FACTOR = 0.75;
+
+// Candidates below this confidence are not reported at all
+const MIN_CANDIDATE_CONFIDENCE = 0.35;
+
+// The best candidate needs this confidence to count as a match
+const MIN_MATCH_CONFIDENCE = 0.5;
+
+// Candidates this close to the best one make the line ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+
+// Matches below this confidence are flagged for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+// Confidence multipliers for part numbers found inside the document rather than in its
+// name: metadata is written about the document, page text may merely mention the part
+const METADATA_SOURCE_FACTOR = 0.9;
+const PAGE_TEXT_SOURCE_FACTOR = 0.85;
+
+const DEFAULT_MAX_CANDIDATES = 5;
+
+// Aliases this short are only accepted as whole words, so "AB" does not match inside "ABB"
+const SHORT_ALIAS_LENGTH = 3;
+
 /**
  * Normalizes a string by converting to lowercase and removing special characters
  * @param input The string to normalize
@@ -17,87 +210,599 @@ function normalizeString(input: string): string {
     return input.toLowerCase().replace(/[_\-\s.]/g, '');
 }
 
+/**
+ * Checks whether a filename mentions a manufacturer under any of its names
+ * @param fileName The PDF filename
+ * @param names The manufacturer name and its aliases
+ * @returns True if the filename contains one of the names
+ */
+function mentionsManufacturer(fileName: string, names: string[]): boolean {
+    const normalizedFileName = normalizeString(fileName);
+    const words = fileName.toLowerCase().split(/[^a-z0-9]+/);
+
+    return names.some(name => {
+        const normalizedName = normalizeString(name);
+        if (normalizedName.length <= SHORT_ALIAS_LENGTH) {
+            return words.includes(normalizedName);
+        }
+        return normalizedFileName.includes(normalizedName);
+    });
+}
+
+/**
+ * Checks whether a file lives under a folder named for a manufacturer,
+ * e.g. "Phoenix Contact/2903149.pdf"
+ * @param file The PDF, with its library root and path relative to it
+ * @param names The manufacturer name and its aliases
+ * @returns True if the root or a folder below it normalizes to one of the names
+ */
+function folderNamesManufacturer(file: LibraryFile, names: string[]): boolean {
+    const folders = path.dirname(file.relativePath || file.fileName).split(/[\\/]/);
+    if (file.root) {
+        folders.push(path.basename(file.root));
+    }
+
+    const normalizedFolders = folders.map(normalizeString).filter(folder => folder && folder !== '.');
+    return names.some(name => normalizedFolders.includes(normalizeString(name)));
+}
+
+/**
+ * Lists the names to look for when matching a manufacturer
+ * @param manufacturer The manufacturer name from the BOM
+ * @param options Matching options
+ * @returns The manufacturer name plus its aliases
+ */
+function namesFor(manufacturer: string, options: MatchOptions): string[] {
+    return manufacturerNames(manufacturer, options.manufacturerAliases || DEFAULT_MANUFACTURER_ALIASES);
+}
+
+/**
+ * Builds the key a manually chosen PDF is remembered under, so any alias of the
+ * manufacturer and any spelling of the part number find it again
+ * @param manufacturer The manufacturer name from the BOM
+ * @param partNumber The part number from the BOM
+ * @param manufacturerAliases The alias table used to resolve the manufacturer
+ * @returns The normalized manufacturer and part number
+ */
+export function learnedMatchKey(
+    manufacturer: string,
+    partNumber: string,
+    manufacturerAliases: ManufacturerAliasTable = DEFAULT_MANUFACTURER_ALIASES
+): string {
+    return `${normalizeString(resolveManufacturer(manufacturer, manufacturerAliases))}|${tokenize(partNumber).join('')}`;
+}
+
+/**
+ * Copies the BOM fields that travel with a line into its match result
+ * @param entry The BOM line
+ * @returns The base of the match result, not yet matched
+ */
+function toMatchResult(entry: BomLine): BomMatchResult {
+    const result: BomMatchResult = {
+        manufacturer: entry.manufacturer,
+        partNumber: entry.partNumber,
+        matched: false
+    };
+
+    const sourceLines = entry.sourceLines || (entry.sourceLine !== undefined ? [entry.sourceLine] : undefined);
+
+    if (entry.quantity !== undefined) result.quantity = entry.quantity;
+    if (entry.description) result.description = entry.description;
+    if (entry.tags && entry.tags.length > 0) result.tags = entry.tags;
+    if (sourceLines) result.sourceLines = sourceLines;
+    if (entry.inferredFrom) result.inferredFrom = entry.inferredFrom;
+    if (entry.section) result.section = entry.section;
+
+    return result;
+}
+
+/**
+ * Scores every PDF against a BOM line
+ * @param entry The BOM line
+ * @param files The PDFs to consider
+ * @param options Matching options
+ * @returns Candidates ordered by confidence, best first
+ */
+function rankCandidates(
+    entry: BomLine,
+    files: LibraryFile[],
+    options: MatchOptions
+): MatchCandidate[] {
+    const manufacturerAliases = namesFor(entry.manufacturer, options);
+    const variantSuffix = variantSuffixFor(
+        resolveManufacturer(entry.manufacturer, options.manufacturerAliases || DEFAULT_MANUFACTURER_ALIASES),
+        options.variantSuffixes || DEFAULT_VARIANT_SUFFIXES
+    );
+    const candidates: MatchCandidate[] = [];
+
+    for (const file of files) {
+        const partScore = scorePartNumber(file.fileName, entry.partNumber, variantSuffix);
+        if (!partScore) {
+            continue;
+        }
+
+        // A file filed under a folder named for the manufacturer matches on part number alone
+        const confidence = mentionsManufacturer(file.fileName, manufacturerAliases) ||
+            folderNamesManufacturer(file, manufacturerAliases)
+            ? partScore.score
+            : partScore.score * MISSING_MANUFACTURER_FACTOR;
+
+        if (confidence >= MIN_CANDIDATE_CONFIDENCE) {
+            candidates.push({
+                fileName: file.fileName,
+                pdfPath: file.pdfPath,
+                root: file.root,
+                confidence: Math.round(confidence * 100) / 100,
+                matchType: partScore.matchType,
+                source: 'filename'
+            });
+        }
+    }
+
+    return sortCandidates(candidates);
+}
+
+/**
+ * Finds the PDFs the user's filename rules map a BOM line onto
+ * @param entry The BOM line
+ * @param files All library PDFs; rules name files the part number does not resemble
+ * @param options Matching options
+ * @returns Candidates ordered by filename, all with full confidence
+ */
+function rankRuleCandidates(
+    entry: BomLine,
+    files: LibraryFile[],
+    options: MatchOptions
+): MatchCandidate[] {
+    const matches = findRuleMatches(
+        options.filenameRules || [],
+        entry.manufacturer,
+        entry.partNumber,
+        files,
+        options.manufacturerAliases || DEFAULT_MANUFACTURER_ALIASES
+    );
+
+    return sortCandidates(matches.map(({ file, rule }) => ({
+        fileName: file.fileName,
+        pdfPath: file.pdfPath,
+        root: file.root,
+        confidence: 1,
+        matchType: 'exact' as const,
+        source: 'rule' as const,
+        rule: describeFilenameRule(rule)
+    })));
+}
+
+/**
+ * Finds the family sheets covering a BOM line
+ * @param entry The BOM line
+ * @param filesByPath The library PDFs by path; sheets no longer in the library are skipped
+ * @param options Matching options
+ * @returns Candidates ordered from the narrowest covering pattern to the broadest
+ */
+function rankFamilyCandidates(
+    entry: BomLine,
+    filesByPath: Map<string, LibraryFile>,
+    options: MatchOptions
+): MatchCandidate[] {
+    const coverage = findCoveringSheets(
+        options.familySheets || [],
+        entry.manufacturer,
+        entry.partNumber,
+        options.manufacturerAliases || DEFAULT_MANUFACTURER_ALIASES
+    );
+
+    const candidates: MatchCandidate[] = [];
+    for (const { sheet, pattern } of coverage) {
+        const file = filesByPath.get(sheet.pdfPath);
+        if (file) {
+            candidates.push({
+                fileName: file.fileName,
+                pdfPath: file.pdfPath,
+                root: file.root,
+                confidence: MATCH_TYPE_WEIGHTS.family,
+                matchType: 'family',
+                family: pattern
+            });
+        }
+    }
+
+    return candidates;
+}
+
+/**
+ * Finds candidates that are versions of the same sheet (the same filename apart from
+ * revision and date tokens) and keeps only the newest of each in contention.
+ * Versions compare by revision, then by the date in the filename or the PDF's ModDate.
+ * @param candidates Candidates, best first
+ * @param filesByPath The library PDFs by path, for their ModDate
+ * @returns The candidates with revision details, older revisions moved to the end
+ */
+function preferNewestRevisions(
+    candidates: MatchCandidate[],
+    filesByPath: Map<string, LibraryFile>
+): MatchCandidate[] {
+    const versions = candidates.map(candidate => {
+        const info = parseRevision(candidate.fileName);
+        const annotated: MatchCandidate = { ...candidate };
+        const sheetDate = info.date || filesByPath.get(candidate.pdfPath)?.content?.modDate;
+        if (info.revision) annotated.revision = info.revision.toUpperCase();
+        if (sheetDate) annotated.sheetDate = sheetDate;
+        return { candidate: annotated, info };
+    });
+
+    const newer = (a: typeof versions[number], b: typeof versions[number]): number => {
+        const byRevision = a.info.revision && b.info.revision ? compareRevisions(a.info.revision, b.info.revision) : 0;
+        return byRevision || (a.candidate.sheetDate || '').localeCompare(b.candidate.sheetDate || '');
+    };
+
+    for (const version of versions) {
+        const { baseName } = version.info;
+        if (!baseName || (!version.info.revision && !version.candidate.sheetDate)) {
+            continue;
+        }
+        version.candidate.olderRevision = versions.some(other =>
+            other !== version && other.info.baseName === baseName && newer(other, version) > 0
+        ) || undefined;
+    }
+
+    return [
+        ...versions.filter(version => !version.candidate.olderRevision),
+        ...versions.filter(version => version.candidate.olderRevision)
+    ].map(version => version.candidate);
+}
+
+/**
+ * Checks whether a sheet is older than the configured age
+ * @param sheetDate The sheet's date as YYYY-MM or YYYY-MM-DD
+ * @param staleAfterYears The age in years, or 0/undefined to never flag
+ * @returns True if the sheet should be reviewed for a newer version
+ */
+function isStale(sheetDate: string | undefined, staleAfterYears: number | undefined): boolean | undefined {
+    if (!sheetDate || !staleAfterYears) {
+        return undefined;
+    }
+
+    const cutoff = new Date();
+    cutoff.setFullYear(cutoff.getFullYear() - staleAfterYears);
+    return sheetDate < cutoff.toISOString().slice(0, 10) || undefined;
+}
+
+/**
+ * Orders candidates by confidence. Ties go to the shorter (more specific) filename,
+ * then by name, so the result never depends on directory order.
+ * @param candidates The candidates to sort in place
+ * @returns The sorted candidates
+ */
+function sortCandidates(candidates: MatchCandidate[]): MatchCandidate[] {
+    return candidates.sort((a, b) =>
+        b.confidence - a.confidence ||
+        a.fileName.length - b.fileName.length ||
+        a.fileName.localeCompare(b.fileName)
+    );
+}
+
+/**
+ * Joins the words of some text without separators, so a substring test can rule
+ * out documents that cannot contain a part number before they are scored
+ * @param text The text
+ * @returns The lowercase alphanumeric characters of the text
+ */
+function compactText(text: string): string {
+    return tokenize(text).join('');
+}
+
+/**
+ * Scores the extracted metadata and page text of every PDF against a BOM line
+ * @param entry The BOM line
+ * @param files The PDFs to consider, with their full and compacted content
+ * @param options Matching options
+ * @returns Candidates ordered by confidence, best first
+ */
+function rankContentCandidates(
+    entry: BomLine,
+    files: Array<{ file: LibraryFile; text: string; compact: string }>,
+    options: MatchOptions
+): MatchCandidate[] {
+    const part = compactText(entry.partNumber);
+    if (!part) {
+        return [];
+    }
+
+    const manufacturerAliases = namesFor(entry.manufacturer, options);
+    const variantSuffix = variantSuffixFor(
+        resolveManufacturer(entry.manufacturer, options.manufacturerAliases || DEFAULT_MANUFACTURER_ALIASES),
+        options.variantSuffixes || DEFAULT_VARIANT_SUFFIXES
+    );
+    const candidates: MatchCandidate[] = [];
+
+    for (const { file, text, compact } of files) {
+        const content = file.content;
+        if (!content || !compact.includes(part)) {
+            continue;
+        }
+
+        const metadata = [content.title, content.subject, content.keywords].filter(Boolean).join(' ');
+        const sections: Array<{ text: string; source: MatchSource; factor: number; page?: number }> = [
+            { text: metadata, source: 'metadata', factor: METADATA_SOURCE_FACTOR },
+            ...content.pages.map((text, index) => ({
+                text,
+                source: 'pageText' as const,
+                factor: PAGE_TEXT_SOURCE_FACTOR,
+                page: index + 1
+            }))
+        ];
+
+        for (const section of sections) {
+            const partScore = section.text ? scorePartNumberInText(section.text, entry.partNumber, variantSuffix) : null;
+            if (!partScore) {
+                continue;
+            }
+
+            // A datasheet normally prints its manufacturer's name, so the document text counts too
+            const namesManufacturer = mentionsManufacturer(file.fileName, manufacturerAliases) ||
+                folderNamesManufacturer(file, manufacturerAliases) ||
+                mentionsManufacturer(text, manufacturerAliases);
+            const confidence = partScore.score * section.factor *
+                (namesManufacturer ? 1 : MISSING_MANUFACTURER_FACTOR);
+
+            if (confidence >= MIN_CANDIDATE_CONFIDENCE) {
+                candidates.push({
+                    fileName: file.fileName,
+                    pdfPath: file.pdfPath,
+                    root: file.root,
+                    confidence: Math.round(confidence * 100) / 100,
+                    matchType: partScore.matchType,
+                    source: section.source,
+                    page: section.page
+                });
+            }
+            // Metadata first, then the earliest page: stop at the first place the part appears
+            break;
+        }
+    }
+
+    return candidates;
+}
+
+/**
+ * Combines filename and content candidates, keeping the best candidate for each PDF
+ * @param candidates Candidates from every source
+ * @returns One candidate per PDF, best first
+ */
+function mergeCandidates(candidates: MatchCandidate[]): MatchCandidate[] {
+    const best = new Map<string, MatchCandidate>();
+
+    for (const candidate of candidates) {
+        const existing = best.get(candidate.pdfPath);
+        if (!existing || candidate.confidence > existing.confidence) {
+            best.set(candidate.pdfPath, candidate);
+        }
+    }
+
+    return sortCandidates([...best.values()]);
+}
+
 /**
  * Matches a BOM (Bill of Materials) array with a list of PDF filenames
  * @param bomEntries Array of BOM entries with manufacturer and partNumber
  * @param pdfFiles Array of PDF filenames or file info objects
  * @param pdfBasePath Optional base path to prepend to matched PDF filenames
+ * @param options Matching options such as the manufacturer alias table
+ * @param tokenIndex Prebuilt trigram index over the PDFs (keyed by pdfPath); built here if omitted
  * @returns Results with match status for each entry and summary
  */
 export function matchBomToPdfs(
-    bomEntries: Array<{ manufacturer: string; partNumber: string }>,
-    pdfFiles: Array<string | { fileName: string; pdfPath: string }>,
-    pdfBasePath?: string
+    bomEntries: BomLine[],
+    pdfFiles: Array<string | LibraryFile>,
+    pdfBasePath?: string,
+    options: MatchOptions = {},
+    tokenIndex?: TokenIndex
 ): {
-    results: Array<{
-        manufacturer: string;
-        partNumber: string;
-        matched: boolean;
-        pdfPath?: string;
-        fileName?: string;
-    }>;
-    summary: {
-        total: number;
-        matched: number;
-        notFound: number;
-    };
+    results: BomMatchResult[];
+    summary: MatchSummary;
 } {
-    const results = [];
+    const results: BomMatchResult[] = [];
     let matched = 0;
+    let ambiguous = 0;
     let notFound = 0;
 
-    // Normalize PDF filenames for more accurate matching
-    const normalizedPdfMap = new Map<string, { fileName: string; pdfPath: string }>();
+    // Handle both string filenames and objects with fileName/pdfPath
+    const files: LibraryFile[] = pdfFiles.map(pdfFile => {
+        if (typeof pdfFile === 'string') {
+            return {
+                fileName: path.basename(pdfFile),
+                pdfPath: pdfBasePath ? path.join(pdfBasePath, pdfFile) : pdfFile,
+                root: pdfBasePath,
+                relativePath: pdfFile
+            };
+        }
+        return pdfFile;
+    });
+
+    const maxCandidates = options.maxCandidates ?? DEFAULT_MAX_CANDIDATES;
 
-    pdfFiles.forEach(pdfFile => {
-        // Handle both string filenames and objects with fileName/pdfPath
-        let fileName: string, pdfPath: string;
+    // Only files sharing enough trigrams with a part number are scored against it
+    const index = tokenIndex || buildTokenIndex(files);
+    const filesByPath = new Map(files.map(file => [file.pdfPath, file]));
 
-        if (typeof pdfFile === 'string') {
-            fileName = pdfFile;
-            pdfPath = pdfBasePath ? path.join(pdfBasePath, fileName) : fileName;
-        } else {
-            fileName = pdfFile.fileName;
-            pdfPath = pdfFile.pdfPath;
+    // Compacted once per call, and only if some line needs the content pass
+    let contentFiles: Array<{ file: LibraryFile; text: string; compact: string }> | null = null;
+
+    // Matches one BOM line against the library
+    const matchEntry = (entry: BomLine): BomMatchResult => {
+        const keys = lookupTokenIndex(index, entry.partNumber);
+        const pool = keys
+            ? keys.map(key => filesByPath.get(key)).filter((file): file is LibraryFile => file !== undefined)
+            : files;
+        let candidates = rankCandidates(entry, pool, options);
+
+        // A PDF someone picked for this part before wins over anything the scoring finds
+        const learned = options.learnedMatches?.[
+            learnedMatchKey(entry.manufacturer, entry.partNumber, options.manufacturerAliases)
+        ];
+        if (learned) {
+            const learnedFile = filesByPath.get(learned.pdfPath) || learned;
+            return {
+                ...toMatchResult(entry),
+                matched: true,
+                pdfPath: learnedFile.pdfPath,
+                fileName: learnedFile.fileName,
+                root: learnedFile.root,
+                confidence: 1,
+                matchType: 'exact',
+                source: 'learned',
+                alternatives: candidates
+                    .filter(candidate => candidate.pdfPath !== learnedFile.pdfPath)
+                    .slice(0, maxCandidates)
+            };
         }
 
-        normalizedPdfMap.set(normalizeString(fileName), { fileName, pdfPath });
-    });
+        // Files named by a rule come first; generic matches only compete among themselves
+        const ruleCandidates = rankRuleCandidates(entry, files, options);
+        if (ruleCandidates.length > 0) {
+            const rulePaths = new Set(ruleCandidates.map(candidate => candidate.pdfPath));
+            candidates = [...ruleCandidates, ...candidates.filter(candidate => !rulePaths.has(candidate.pdfPath))];
+        }
 
-    // Process each BOM entry
-    for (const entry of bomEntries) {
-        const normalizedManufacturer = normalizeString(entry.manufacturer);
-        const normalizedPartNumber = normalizeString(entry.partNumber);
-        let matchFound = false;
-        let matchedPdf: { fileName: string; pdfPath: string } | undefined;
-
-        // Check each PDF filename for a match
-        for (const [normalizedFileName, pdfInfo] of normalizedPdfMap.entries()) {
-            if (
-                normalizedFileName.includes(normalizedManufacturer) &&
-                normalizedFileName.includes(normalizedPartNumber)
-            ) {
-                matchFound = true;
-                matchedPdf = pdfInfo;
-                break;
+        // Look inside the documents when the filenames gave no confident match
+        const confidentByName = candidates.length > 0 && candidates[0].confidence >= LOW_CONFIDENCE_THRESHOLD;
+        if (options.contentMatching && !confidentByName) {
+            if (!contentFiles) {
+                contentFiles = files
+                    .filter(file => file.content)
+                    .map(file => {
+                        const content = file.content as PdfContent;
+                        const text = [content.title, content.subject, content.keywords, ...content.pages].join(' ');
+                        return { file, text, compact: compactText(text) };
+                    });
             }
+            candidates = mergeCandidates([...candidates, ...rankContentCandidates(entry, contentFiles, options)]);
         }
 
-        if (matchFound && matchedPdf) {
-            results.push({
-                manufacturer: entry.manufacturer,
-                partNumber: entry.partNumber,
+        // Fall back to a series data sheet when nothing names this exact part; only the
+        // sheets with the narrowest covering pattern compete for the line
+        let tier = ruleCandidates.length > 0 ? ruleCandidates : candidates;
+        const confidentMatch = candidates.length > 0 && candidates[0].confidence >= LOW_CONFIDENCE_THRESHOLD;
+        if (!confidentMatch && options.familySheets && options.familySheets.length > 0) {
+            const familyCandidates = rankFamilyCandidates(entry, filesByPath, options);
+            if (familyCandidates.length > 0) {
+                const narrowest = familyPatternSpecificity(familyCandidates[0].family || '');
+                const familyPaths = new Set(familyCandidates.map(candidate => candidate.pdfPath));
+                tier = familyCandidates.filter(candidate => familyPatternSpecificity(candidate.family || '') === narrowest);
+                candidates = [...familyCandidates, ...candidates.filter(candidate => !familyPaths.has(candidate.pdfPath))];
+            }
+        }
+
+        // Older revisions of the chosen sheets drop out of contention and become alternatives
+        candidates = preferNewestRevisions(candidates, filesByPath).map(candidate => {
+            const stale = isStale(candidate.sheetDate, options.staleAfterYears);
+            return stale ? { ...candidate, stale } : candidate;
+        });
+        const tierPaths = new Set(tier.map(candidate => candidate.pdfPath));
+
+        // An edit-distance hit ignores the part number boundaries (LC1D18 is one character from
+        // Schneider_LC1D08.pdf, a different contactor), so it is only ever offered as an alternative
+        const matchable = candidates.filter(candidate => candidate.matchType !== 'fuzzy');
+
+        const best = matchable[0];
+        const contenders = best && best.confidence >= MIN_MATCH_CONFIDENCE
+            ? matchable.filter(candidate =>
+                tierPaths.has(candidate.pdfPath) &&
+                !candidate.olderRevision &&
+                best.confidence - candidate.confidence <= AMBIGUITY_MARGIN)
+            : [];
+
+        if (contenders.length > 1) {
+            return {
+                ...toMatchResult(entry),
+                ambiguous: true,
+                contenders,
+                alternatives: candidates.filter(candidate => !contenders.includes(candidate)).slice(0, maxCandidates)
+            };
+        }
+        if (best && best.confidence >= MIN_MATCH_CONFIDENCE) {
+            return {
+                ...toMatchResult(entry),
                 matched: true,
-                pdfPath: matchedPdf.pdfPath,
-                fileName: matchedPdf.fileName
-            });
+                pdfPath: best.pdfPath,
+                fileName: best.fileName,
+                root: best.root,
+                confidence: best.confidence,
+                matchType: best.matchType,
+                source: best.source,
+                page: best.page,
+                rule: best.rule,
+                family: best.family,
+                revision: best.revision,
+                sheetDate: best.sheetDate,
+                stale: best.stale,
+                lowConfidence: best.confidence < LOW_CONFIDENCE_THRESHOLD,
+                alternatives: candidates.filter(candidate => candidate !== best).slice(0, maxCandidates)
+            };
+        }
+
+        return {
+            ...toMatchResult(entry),
+            alternatives: candidates.slice(0, maxCandidates)
+        };
+    };
+
+    for (const entry of bomEntries) {
+        let result = matchEntry(entry);
+
+        // A discontinued part without a sheet of its own is documented by its replacement's sheet.
+        // A low-confidence match of the old number (often a near miss on the new one) does not count.
+        const weak = !result.ambiguous && (!result.matched || result.lowConfidence);
+        if (weak && options.supersessions && options.supersessions.length > 0) {
+            const replacements = findReplacements(
+                options.supersessions,
+                entry.manufacturer,
+                entry.partNumber,
+                options.manufacturerAliases
+            );
+            for (const replacement of replacements) {
+                const replacementResult = matchEntry({ ...entry, ...replacement });
+                const confident = replacementResult.matched && !replacementResult.lowConfidence;
+                if (confident || (!result.matched && (replacementResult.matched || replacementResult.ambiguous))) {
+                    result = {
+                        ...replacementResult,
+                        supersedes: { manufacturer: entry.manufacturer, partNumber: entry.partNumber }
+                    };
+                    break;
+                }
+            }
+        }
+
+        // A kit pulls in every document it needs; when no PDF names the kit part itself,
+        // its first document stands in as the line's cut sheet. An ambiguous line gets the
+        // documents too, ready for when one of its contenders is chosen.
+        if (options.kits && options.kits.length > 0) {
+            const kitDocuments = expandKit(options.kits, result.manufacturer, result.partNumber, options.manufacturerAliases)
+                .filter(document => document.pdfPath !== result.pdfPath);
+            if (kitDocuments.length > 0 && (result.matched || result.ambiguous)) {
+                result = { ...result, attachments: kitDocuments };
+            } else if (kitDocuments.length > 0) {
+                const [first, ...rest] = kitDocuments;
+                result = {
+                    ...result,
+                    matched: true,
+                    pdfPath: first.pdfPath,
+                    fileName: first.fileName,
+                    confidence: 1,
+                    matchType: 'exact',
+                    source: 'kit',
+                    attachments: rest.length > 0 ? rest : undefined
+                };
+            }
+        }
+
+        results.push(result);
+        if (result.matched) {
             matched++;
+        } else if (result.ambiguous) {
+            ambiguous++;
         } else {
-            results.push({
-                manufacturer: entry.manufacturer,
-                partNumber: entry.partNumber,
-                matched: false
-            });
             notFound++;
         }
     }
@@ -107,83 +812,117 @@ export function matchBomToPdfs(
         summary: {
             total: bomEntries.length,
             matched,
+            ambiguous,
             notFound
         }
     };
 }
 
 /**
- * Scans a directory for PDF files and matches them to manufacturer and part numbers
- * @param directory The directory to scan for PDFs
- * @returns An array of matched PDFs with their metadata
+ * Scans one or more library roots for PDF files, descending into subfolders
+ * @param directories The library root or roots to scan
+ * @param scanOptions Depth limit and ignore patterns
+ * @returns An array of PDFs with the root each was found under
+ */
+export async function scanPdfDirectory(
+    directories: string | string[],
+    scanOptions: ScanOptions = {}
+): Promise<PdfMatch[]> {
+    const roots = Array.isArray(directories) ? directories : [directories];
+    const matches: PdfMatch[] = [];
+    const seen = new Set<string>();
+
+    for (const root of roots) {
+        try {
+            await walkDirectory(root, root, 0, scanOptions, matches, seen);
+        } catch (error) {
+            console.error(`Error scanning PDF directory ${root}:`, error);
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Collects the PDFs in a folder and, within the depth limit, its subfolders
+ * @param root The library root being scanned
+ * @param directory The folder to read
+ * @param depth How many levels below the root this folder is
+ * @param scanOptions Depth limit and ignore patterns
+ * @param matches Collected PDFs
+ * @param seen PDF paths already collected, for roots that overlap
  */
-export async function scanPdfDirectory(directory: string): Promise<PdfMatch[]> {
+async function walkDirectory(
+    root: string,
+    directory: string,
+    depth: number,
+    scanOptions: ScanOptions,
+    matches: PdfMatch[],
+    seen: Set<string>
+): Promise<void> {
+    const maxDepth = scanOptions.maxDepth ?? DEFAULT_MAX_DEPTH;
+    const ignorePatterns = scanOptions.ignorePatterns || [];
+
+    // Only the root itself may fail loudly; unreadable subfolders are skipped
+    let entries;
     try {
-        // Get all files in the directory (non-recursive)
-        const files = await fs.readdir(directory);
+        entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+        if (depth === 0) {
+            throw error;
+        }
+        console.warn(`Skipping unreadable folder ${directory}:`, error);
+        return;
+    }
 
-        // Filter for PDF files only
-        const pdfFiles = files.filter(file => path.extname(file).toLowerCase() === '.pdf');
+    for (const entry of entries) {
+        const fullPath = path.join(directory, entry.name);
+        const relativePath = path.relative(root, fullPath);
 
-        // We'll return this array of matched files
-        const matches: PdfMatch[] = [];
+        if (ignorePatterns.some(pattern => matchesGlob(relativePath, pattern))) {
+            continue;
+        }
 
-        // Create basic metadata for each PDF file found
-        for (const pdfFile of pdfFiles) {
+        if (entry.isDirectory()) {
+            if (depth < maxDepth) {
+                await walkDirectory(root, fullPath, depth + 1, scanOptions, matches, seen);
+            }
+        } else if (entry.isFile() && path.extname(entry.name).toLowerCase() === '.pdf' && !seen.has(fullPath)) {
+            seen.add(fullPath);
             matches.push({
                 manufacturer: '', // Will be filled when matched with BOM
                 partNumber: '',   // Will be filled when matched with BOM
-                pdfPath: path.join(directory, pdfFile),
-                fileName: pdfFile
+                pdfPath: fullPath,
+                fileName: entry.name,
+                root,
+                relativePath
             });
         }
-
-        return matches;
-    } catch (error) {
-        console.error('Error scanning PDF directory:', error);
-        return [];
     }
 }
 
 /**
  * Matches a manufacturer and part number against available PDFs
- * @param directory The directory containing PDFs
+ * @param directory The library root or roots containing PDFs
  * @param manufacturer The manufacturer name
  * @param partNumber The part number
+ * @param options Matching options such as the manufacturer alias table
+ * @param scanOptions Depth limit and ignore patterns for the library scan
  * @returns The matched PDF path or null if no match
  */
 export async function findMatchingPdf(
-    directory: string,
+    directory: string | string[],
     manufacturer: string,
-    partNumber: string
+    partNumber: string,
+    options: MatchOptions = {},
+    scanOptions: ScanOptions = {}
 ): Promise<string | null> {
     try {
-        // Normalize the search terms - lowercase and remove special characters
-        const normalizedManufacturer = normalizeString(manufacturer);
-        const normalizedPartNumber = normalizeString(partNumber);
-
-        // Get all files in the directory
-        const files = await fs.readdir(directory);
-
-        // Filter for PDF files only
-        const pdfFiles = files.filter(file => path.extname(file).toLowerCase() === '.pdf');
-
-        // Look for a match
-        for (const pdfFile of pdfFiles) {
-            // Normalize the filename - lowercase and remove special characters
-            const normalizedFilename = normalizeString(pdfFile);
-
-            // Check if both manufacturer and part number are in the filename
-            if (
-                normalizedFilename.includes(normalizedManufacturer) &&
-                normalizedFilename.includes(normalizedPartNumber)
-            ) {
-                return path.join(directory, pdfFile);
-            }
-        }
+        const pdfFiles = await scanPdfDirectory(directory, scanOptions);
+        const { results } = matchBomToPdfs([{ manufacturer, partNumber }], pdfFiles, undefined, options);
 
-        // No match found
-        return null;
+        // Return the best match, if any
+        return results[0].pdfPath || null;
     } catch (error) {
         console.error('Error finding matching PDF:', error);
         return null;
@@ -192,81 +931,57 @@ export async function findMatchingPdf(
 
 /**
  * Processes a CSV row to find a matching PDF
- * @param directory The directory containing PDFs
+ * @param directory The library root or roots containing PDFs
  * @param manufacturer The manufacturer name
  * @param partNumber The part number
+ * @param options Matching options such as the manufacturer alias table
+ * @param scanOptions Depth limit and ignore patterns for the library scan
  * @returns Result object with match status
  */
 export async function processBomEntry(
-    directory: string,
+    directory: string | string[],
     manufacturer: string,
-    partNumber: string
-): Promise<{
-    manufacturer: string;
-    partNumber: string;
-    matched: boolean;
-    pdfPath?: string;
-    fileName?: string;
-}> {
-    const pdfPath = await findMatchingPdf(directory, manufacturer, partNumber);
+    partNumber: string,
+    options: MatchOptions = {},
+    scanOptions: ScanOptions = {}
+): Promise<BomMatchResult> {
+    const pdfFiles = await scanPdfDirectory(directory, scanOptions);
+    const { results } = matchBomToPdfs([{ manufacturer, partNumber }], pdfFiles, undefined, options);
 
-    if (pdfPath) {
-        return {
-            manufacturer,
-            partNumber,
-            matched: true,
-            pdfPath,
-            fileName: path.basename(pdfPath)
-        };
-    } else {
-        return {
-            manufacturer,
-            partNumber,
-            matched: false
-        };
-    }
+    return results[0];
 }
 
 /**
  * Processes multiple CSV entries and finds matching PDFs
- * @param directory The directory containing PDFs
+ * @param directory The library root or roots containing PDFs
  * @param entries Array of manufacturer and part number entries
+ * @param options Matching options such as the manufacturer alias table
+ * @param scanOptions Depth limit and ignore patterns for the library scan
  * @returns Results with match status and summary
  */
 export async function processBomEntries(
-    directory: string,
-    entries: Array<{ manufacturer: string; partNumber: string }>
+    directory: string | string[],
+    entries: BomLine[],
+    options: MatchOptions = {},
+    scanOptions: ScanOptions = {}
 ): Promise<{
-    results: Array<{
-        manufacturer: string;
-        partNumber: string;
-        matched: boolean;
-        pdfPath?: string;
-        fileName?: string;
-    }>;
-    summary: {
-        total: number;
-        matched: number;
-        notFound: number;
-    };
+    results: BomMatchResult[];
+    summary: MatchSummary;
 }> {
     try {
         // For efficiency, first get all PDF files in the directory
-        const pdfFilesInfo = await scanPdfDirectory(directory);
+        const pdfFilesInfo = await scanPdfDirectory(directory, scanOptions);
 
         // Use the new matching function for bulk processing
-        return matchBomToPdfs(entries, pdfFilesInfo, directory);
+        return matchBomToPdfs(entries, pdfFilesInfo, undefined, options);
     } catch (error) {
         console.error('Error processing BOM entries:', error);
         return {
-            results: entries.map(entry => ({
-                manufacturer: entry.manufacturer,
-                partNumber: entry.partNumber,
-                matched: false
-            })),
+            results: entries.map(toMatchResult),
             summary: {
                 total: entries.length,
                 matched: 0,
+                ambiguous: 0,
                 notFound: entries.length
             }
         };
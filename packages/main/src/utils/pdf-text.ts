@@ -0,0 +1,64 @@
+import fs from 'fs/promises';
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.js';
+import { parsePdfDate } from './revisions';
+
+/**
+ * Searchable text of a PDF: its Info dictionary fields and the text of its first pages
+ */
+export interface PdfContent {
+    title?: string;
+    subject?: string;
+    keywords?: string;
+    // Last modification date from the Info dictionary, as YYYY-MM-DD
+    modDate?: string;
+    // Text of the first pages, in page order
+    pages: string[];
+}
+
+/**
+ * Extracts the document metadata and first-page text of a PDF
+ * @param filePath The PDF to read
+ * @param maxPages How many pages to extract text from; 0 reads the metadata only
+ * @returns The content; empty when the PDF cannot be read (e.g. encrypted)
+ */
+export async function extractPdfContent(filePath: string, maxPages: number): Promise<PdfContent> {
+    const content: PdfContent = { pages: [] };
+
+    try {
+        const data = new Uint8Array(await fs.readFile(filePath));
+        const document = await pdfjs.getDocument({
+            data,
+            isEvalSupported: false,
+            disableFontFace: true,
+            verbosity: 0
+        }).promise;
+
+        try {
+            const { info } = await document.getMetadata();
+            const fields = info as Record<string, unknown>;
+            if (typeof fields.Title === 'string' && fields.Title.trim()) content.title = fields.Title.trim();
+            if (typeof fields.Subject === 'string' && fields.Subject.trim()) content.subject = fields.Subject.trim();
+            if (typeof fields.Keywords === 'string' && fields.Keywords.trim()) content.keywords = fields.Keywords.trim();
+            if (typeof fields.ModDate === 'string') content.modDate = parsePdfDate(fields.ModDate);
+
+            const pageCount = Math.min(document.numPages, maxPages);
+            for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+                const page = await document.getPage(pageNumber);
+                const textContent = await page.getTextContent();
+                content.pages.push(
+                    textContent.items
+                        .map(item => ('str' in item ? item.str : ''))
+                        .join(' ')
+                        .replace(/\s+/g, ' ')
+                        .trim()
+                );
+            }
+        } finally {
+            await document.destroy();
+        }
+    } catch (error) {
+        console.warn(`Unable to read text from ${filePath}:`, error instanceof Error ? error.message : error);
+    }
+
+    return content;
+}
@@ -0,0 +1,105 @@
+import { tokenize } from './match-scoring';
+
+/**
+ * Revision and date information read from a cut sheet's filename
+ */
+export interface RevisionInfo {
+    // Revision letter or number, e.g. "e" from "RevE" or "3" from "v3"
+    revision?: string;
+    // Date stamp in the filename as YYYY-MM or YYYY-MM-DD
+    date?: string;
+    // The filename words without revision and date tokens, shared by every version of a sheet
+    baseName: string;
+}
+
+// Oldest year accepted as a date stamp, so part numbers such as 1756 are not read as years
+const MIN_DATE_YEAR = 1990;
+
+/**
+ * Reads a four-digit year, month and optional day as a date
+ * @returns The date as YYYY-MM or YYYY-MM-DD, or undefined if it is not a plausible date
+ */
+function toDate(year: string, month: string, day?: string): string | undefined {
+    const y = Number(year);
+    const m = Number(month);
+    const d = day === undefined ? undefined : Number(day);
+
+    if (y < MIN_DATE_YEAR || y > new Date().getFullYear() + 1 || m < 1 || m > 12) {
+        return undefined;
+    }
+    if (d !== undefined && (d < 1 || d > 31)) {
+        return undefined;
+    }
+
+    const yearMonth = `${year}-${month.padStart(2, '0')}`;
+    return d === undefined ? yearMonth : `${yearMonth}-${String(d).padStart(2, '0')}`;
+}
+
+/**
+ * Parses revision and date tokens out of a filename, e.g. "ABB_ACH550_RevE.pdf",
+ * "ACH550 Rev 3.pdf", "ACH550_v2.pdf", "ACH550_2023-05-12.pdf" or "ACH550_202305.pdf"
+ * @param fileName The PDF filename
+ * @returns The revision, the date and the remaining words
+ */
+export function parseRevision(fileName: string): RevisionInfo {
+    const tokens = tokenize(fileName);
+    const rest: string[] = [];
+    const info: RevisionInfo = { baseName: '' };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const next = tokens[i + 1];
+        // "v" only counts with a number, so "VA" in a transformer sheet is not a revision
+        const joined = /^(?:rev|revision)([a-z]{1,2}|\d{1,3})$/.exec(token) || /^v(\d{1,3})$/.exec(token);
+        const compactDate = /^(\d{4})(\d{2})(\d{2})?$/.exec(token);
+
+        if (joined && !info.revision) {
+            info.revision = joined[1];
+        } else if ((token === 'rev' || token === 'revision') && next && /^(?:[a-z]{1,2}|\d{1,3})$/.test(next) && !info.revision) {
+            info.revision = next;
+            i++;
+        } else if (compactDate && !info.date && toDate(compactDate[1], compactDate[2], compactDate[3])) {
+            info.date = toDate(compactDate[1], compactDate[2], compactDate[3]);
+        } else if (/^\d{4}$/.test(token) && next && /^\d{1,2}$/.test(next) && !info.date && toDate(token, next)) {
+            // Separated date: 2023-05 or 2023-05-12
+            const day = tokens[i + 2];
+            const withDay = day && /^\d{1,2}$/.test(day) ? toDate(token, next, day) : undefined;
+            info.date = withDay || toDate(token, next);
+            i += withDay ? 2 : 1;
+        } else {
+            rest.push(token);
+        }
+    }
+
+    info.baseName = rest.join(' ');
+    return info;
+}
+
+/**
+ * Compares two revisions: numbers numerically, letters alphabetically with AA after Z
+ * @returns A positive number if a is newer, negative if b is newer, 0 if equal or not comparable
+ */
+export function compareRevisions(a: string, b: string): number {
+    const numeric = /^\d+$/;
+    if (numeric.test(a) && numeric.test(b)) {
+        return Number(a) - Number(b);
+    }
+    if (!numeric.test(a) && !numeric.test(b)) {
+        return a.length - b.length || a.localeCompare(b);
+    }
+    return 0;
+}
+
+/**
+ * Converts a PDF date string such as "D:20230512093000+02'00'" to an ISO date
+ * @param value The PDF date
+ * @returns The date as YYYY-MM-DD, or undefined if it cannot be read
+ */
+export function parsePdfDate(value: string): string | undefined {
+    const match = /^(?:D:)?(\d{4})(\d{2})?(\d{2})?/.exec(value.trim());
+    if (!match) {
+        return undefined;
+    }
+
+    return toDate(match[1], match[2] || '01', match[3] || '01');
+}
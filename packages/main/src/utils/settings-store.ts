@@ -0,0 +1,403 @@
+import Store from 'electron-store';
+import {
+    DEFAULT_MANUFACTURER_ALIASES,
+    ManufacturerAliasTable,
+    sanitizeAliasTable
+} from './manufacturer-aliases';
+import {
+    DEFAULT_VARIANT_SUFFIXES,
+    VariantSuffixTable,
+    validateVariantSuffixes
+} from './match-scoring';
+import { FilenameRule, validateFilenameRules } from './filename-rules';
+import { FamilySheet, validateFamilySheets } from './family-sheets';
+import {
+    DEFAULT_MANUFACTURER_PATTERNS,
+    ManufacturerPattern,
+    validateManufacturerPatterns
+} from './manufacturer-inference';
+import { Supersession, validateSupersessions } from './supersessions';
+import { KitDefinition, validateKits } from './kits';
+import { CoverSheetLayout, DEFAULT_COVER_LAYOUT, validateCoverLayout } from './cover-sheet';
+import { DEFAULT_PAGE_STAMP, PageStampSettings, validatePageStamp } from './page-stamp';
+
+/**
+ * Cut sheet library folders searched in addition to the session's PDF directory
+ */
+export interface LibrarySettings {
+    roots: string[];
+    // Folder levels below each root to descend into
+    maxDepth: number;
+    // Glob patterns for files and folders to skip
+    ignorePatterns: string[];
+    // Index each PDF's metadata and first-page text and match part numbers against it
+    contentMatching: boolean;
+    // Pages of text to index per PDF
+    contentPages: number;
+    // Flag matched sheets dated more than this many years ago (0 = never)
+    staleAfterYears: number;
+}
+
+const DEFAULT_LIBRARY_SETTINGS: LibrarySettings = {
+    roots: [],
+    maxDepth: 8,
+    ignorePatterns: ['.*', '~$*'],
+    contentMatching: false,
+    contentPages: 2,
+    staleAfterYears: 5
+};
+
+// Define the settings schema
+interface SettingsSchema {
+    manufacturerAliases: ManufacturerAliasTable;
+    variantSuffixes: VariantSuffixTable;
+    library: LibrarySettings;
+    filenameRules: FilenameRule[];
+    familySheets: FamilySheet[];
+    manufacturerPatterns: ManufacturerPattern[];
+    supersessions: Supersession[];
+    kits: KitDefinition[];
+    coverLayout: CoverSheetLayout;
+    pageStamp: PageStampSettings;
+}
+
+// Initialize the store for matching settings
+const store = new Store<SettingsSchema>({
+    name: 'settings',
+    defaults: {
+        manufacturerAliases: DEFAULT_MANUFACTURER_ALIASES,
+        variantSuffixes: DEFAULT_VARIANT_SUFFIXES,
+        library: DEFAULT_LIBRARY_SETTINGS,
+        filenameRules: [],
+        familySheets: [],
+        manufacturerPatterns: DEFAULT_MANUFACTURER_PATTERNS,
+        supersessions: [],
+        kits: [],
+        coverLayout: DEFAULT_COVER_LAYOUT,
+        pageStamp: DEFAULT_PAGE_STAMP
+    }
+});
+
+/**
+ * Gets the manufacturer alias table used for matching
+ * @returns Canonical manufacturer → aliases
+ */
+export function getManufacturerAliases(): ManufacturerAliasTable {
+    return store.get('manufacturerAliases') || DEFAULT_MANUFACTURER_ALIASES;
+}
+
+/**
+ * Saves an edited manufacturer alias table
+ * @param table Canonical manufacturer → aliases
+ * @returns The saved (cleaned) table
+ */
+export function saveManufacturerAliases(table: ManufacturerAliasTable): ManufacturerAliasTable {
+    const cleaned = sanitizeAliasTable(table);
+    store.set('manufacturerAliases', cleaned);
+    return cleaned;
+}
+
+/**
+ * Restores the default manufacturer alias table
+ * @returns The default table
+ */
+export function resetManufacturerAliases(): ManufacturerAliasTable {
+    store.set('manufacturerAliases', DEFAULT_MANUFACTURER_ALIASES);
+    return DEFAULT_MANUFACTURER_ALIASES;
+}
+
+/**
+ * Gets the per-manufacturer variant suffix patterns used for matching
+ * @returns Canonical manufacturer → suffix pattern
+ */
+export function getVariantSuffixes(): VariantSuffixTable {
+    return store.get('variantSuffixes') || DEFAULT_VARIANT_SUFFIXES;
+}
+
+/**
+ * Saves edited variant suffix patterns
+ * @param table Canonical manufacturer → suffix pattern
+ * @returns The saved table
+ * @throws Error if a pattern is not a valid regular expression
+ */
+export function saveVariantSuffixes(table: VariantSuffixTable): VariantSuffixTable {
+    const cleaned: VariantSuffixTable = {};
+    for (const [manufacturer, pattern] of Object.entries(table)) {
+        if (manufacturer.trim()) {
+            cleaned[manufacturer.trim()] = (pattern || '').trim();
+        }
+    }
+
+    const error = validateVariantSuffixes(cleaned);
+    if (error) {
+        throw new Error(error);
+    }
+
+    store.set('variantSuffixes', cleaned);
+    return cleaned;
+}
+
+/**
+ * Restores the default variant suffix patterns
+ * @returns The default table
+ */
+export function resetVariantSuffixes(): VariantSuffixTable {
+    store.set('variantSuffixes', DEFAULT_VARIANT_SUFFIXES);
+    return DEFAULT_VARIANT_SUFFIXES;
+}
+
+/**
+ * Gets the cut sheet library folders and scan settings
+ * @returns The library settings
+ */
+export function getLibrarySettings(): LibrarySettings {
+    return { ...DEFAULT_LIBRARY_SETTINGS, ...store.get('library') };
+}
+
+/**
+ * Saves the cut sheet library folders and scan settings
+ * @param settings The edited settings
+ * @returns The saved settings
+ */
+export function saveLibrarySettings(settings: LibrarySettings): LibrarySettings {
+    const cleaned: LibrarySettings = {
+        roots: [...new Set(settings.roots.map(root => root.trim()).filter(Boolean))],
+        maxDepth: Math.max(0, Math.floor(Number(settings.maxDepth) || 0)),
+        ignorePatterns: settings.ignorePatterns.map(pattern => pattern.trim()).filter(Boolean),
+        contentMatching: Boolean(settings.contentMatching),
+        contentPages: Math.max(1, Math.floor(Number(settings.contentPages) || DEFAULT_LIBRARY_SETTINGS.contentPages)),
+        staleAfterYears: Math.max(0, Number(settings.staleAfterYears) || 0)
+    };
+
+    store.set('library', cleaned);
+    return cleaned;
+}
+
+/**
+ * Gets the user-defined filename rules, in the order they are evaluated
+ * @returns The rules
+ */
+export function getFilenameRules(): FilenameRule[] {
+    return store.get('filenameRules') || [];
+}
+
+/**
+ * Saves edited filename rules
+ * @param rules The rules, in evaluation order
+ * @returns The saved (trimmed) rules
+ */
+export function saveFilenameRules(rules: FilenameRule[]): FilenameRule[] {
+    const cleaned: FilenameRule[] = rules.map(rule => ({
+        id: rule.id,
+        manufacturer: rule.manufacturer.trim(),
+        syntax: rule.syntax === 'regex' ? 'regex' : 'glob',
+        partPattern: rule.partPattern.trim(),
+        filePattern: rule.filePattern.trim(),
+        enabled: rule.enabled !== false
+    }));
+
+    const error = validateFilenameRules(cleaned);
+    if (error) {
+        throw new Error(error);
+    }
+
+    store.set('filenameRules', cleaned);
+    return cleaned;
+}
+
+/**
+ * Gets the declared family sheets
+ * @returns The sheets and the part patterns they cover
+ */
+export function getFamilySheets(): FamilySheet[] {
+    return store.get('familySheets') || [];
+}
+
+/**
+ * Saves edited family sheets
+ * @param sheets The sheets and the part patterns they cover
+ * @returns The saved (trimmed) sheets
+ */
+export function saveFamilySheets(sheets: FamilySheet[]): FamilySheet[] {
+    const cleaned: FamilySheet[] = sheets.map(sheet => ({
+        id: sheet.id,
+        manufacturer: sheet.manufacturer.trim(),
+        pdfPath: sheet.pdfPath.trim(),
+        patterns: [...new Set(sheet.patterns.map(pattern => pattern.trim()).filter(Boolean))]
+    }));
+
+    const error = validateFamilySheets(cleaned);
+    if (error) {
+        throw new Error(error);
+    }
+
+    store.set('familySheets', cleaned);
+    return cleaned;
+}
+
+/**
+ * Gets the part number patterns used to infer a blank manufacturer
+ * @returns The patterns, in evaluation order
+ */
+export function getManufacturerPatterns(): ManufacturerPattern[] {
+    return store.get('manufacturerPatterns') || DEFAULT_MANUFACTURER_PATTERNS;
+}
+
+/**
+ * Saves edited manufacturer patterns
+ * @param patterns The patterns, in evaluation order
+ * @returns The saved patterns, without blank rows
+ * @throws Error if a pattern is not a valid regular expression or has no manufacturer
+ */
+export function saveManufacturerPatterns(patterns: ManufacturerPattern[]): ManufacturerPattern[] {
+    const cleaned: ManufacturerPattern[] = patterns
+        .map(row => ({ pattern: row.pattern.trim(), manufacturer: row.manufacturer.trim() }))
+        .filter(row => row.pattern || row.manufacturer);
+
+    const error = validateManufacturerPatterns(cleaned);
+    if (error) {
+        throw new Error(error);
+    }
+
+    store.set('manufacturerPatterns', cleaned);
+    return cleaned;
+}
+
+/**
+ * Restores the default manufacturer patterns
+ * @returns The default patterns
+ */
+export function resetManufacturerPatterns(): ManufacturerPattern[] {
+    store.set('manufacturerPatterns', DEFAULT_MANUFACTURER_PATTERNS);
+    return DEFAULT_MANUFACTURER_PATTERNS;
+}
+
+/**
+ * Gets the cross-reference table of discontinued parts and their replacements
+ * @returns The superseded parts
+ */
+export function getSupersessions(): Supersession[] {
+    return store.get('supersessions') || [];
+}
+
+/**
+ * Saves an edited cross-reference table
+ * @param table The superseded parts and their replacements
+ * @returns The saved (trimmed) table, without blank rows
+ * @throws Error if a row is missing the old part or its replacement
+ */
+export function saveSupersessions(table: Supersession[]): Supersession[] {
+    const cleaned: Supersession[] = table
+        .map(row => ({
+            manufacturer: row.manufacturer.trim(),
+            partNumber: row.partNumber.trim(),
+            replacementManufacturer: row.replacementManufacturer.trim(),
+            replacementPartNumber: row.replacementPartNumber.trim()
+        }))
+        .filter(row => row.manufacturer || row.partNumber || row.replacementManufacturer || row.replacementPartNumber);
+
+    const error = validateSupersessions(cleaned);
+    if (error) {
+        throw new Error(error);
+    }
+
+    store.set('supersessions', cleaned);
+    return cleaned;
+}
+
+/**
+ * Gets the kit definitions
+ * @returns The kit parts and the documents each one needs
+ */
+export function getKits(): KitDefinition[] {
+    return store.get('kits') || [];
+}
+
+/**
+ * Saves edited kit definitions
+ * @param kits The kit parts and the documents each one needs, documents in merge order
+ * @returns The saved (trimmed) kits
+ * @throws Error if a kit has no pattern or no documents
+ */
+export function saveKits(kits: KitDefinition[]): KitDefinition[] {
+    const cleaned: KitDefinition[] = kits.map(kit => ({
+        id: kit.id,
+        manufacturer: kit.manufacturer.trim(),
+        partPattern: kit.partPattern.trim(),
+        documents: kit.documents.map(document => ({
+            pdfPath: document.pdfPath.trim(),
+            label: document.label.trim()
+        }))
+    }));
+
+    const error = validateKits(cleaned);
+    if (error) {
+        throw new Error(error);
+    }
+
+    store.set('kits', cleaned);
+    return cleaned;
+}
+
+/**
+ * Gets the cover sheet layout used for every submittal package
+ * @returns The layout
+ */
+export function getCoverLayout(): CoverSheetLayout {
+    return { ...DEFAULT_COVER_LAYOUT, ...store.get('coverLayout') };
+}
+
+/**
+ * Saves an edited cover sheet layout
+ * @param layout The edited layout
+ * @returns The saved layout
+ * @throws Error if the logo height is out of range or a field is unknown
+ */
+export function saveCoverLayout(layout: CoverSheetLayout): CoverSheetLayout {
+    const cleaned: CoverSheetLayout = {
+        title: layout.title.trim(),
+        logoPosition: layout.logoPosition,
+        logoMaxHeight: Number(layout.logoMaxHeight),
+        alignment: layout.alignment,
+        fields: layout.fields
+    };
+
+    const error = validateCoverLayout(cleaned);
+    if (error) {
+        throw new Error(error);
+    }
+
+    store.set('coverLayout', cleaned);
+    return cleaned;
+}
+
+/**
+ * Gets the settings of the stamp drawn on every page of the package
+ * @returns The page stamp settings
+ */
+export function getPageStampSettings(): PageStampSettings {
+    return { ...DEFAULT_PAGE_STAMP, ...store.get('pageStamp') };
+}
+
+/**
+ * Saves edited page stamp settings
+ * @param settings The edited settings
+ * @returns The saved settings
+ * @throws Error if the position is unknown or the font size is out of range
+ */
+export function savePageStampSettings(settings: PageStampSettings): PageStampSettings {
+    const cleaned: PageStampSettings = {
+        enabled: Boolean(settings.enabled),
+        position: settings.position,
+        fontSize: Number(settings.fontSize),
+        backing: Boolean(settings.backing)
+    };
+
+    const error = validatePageStamp(cleaned);
+    if (error) {
+        throw new Error(error);
+    }
+
+    store.set('pageStamp', cleaned);
+    return cleaned;
+}
@@ -0,0 +1,208 @@
+import fs from 'fs/promises';
+import { parse } from 'csv-parse/sync';
+import { decodeBomBuffer, detectDelimiter } from './bom-detection';
+import { ManufacturerAliasTable, resolveManufacturer } from './manufacturer-aliases';
+import { tokenize } from './match-scoring';
+
+/**
+ * A discontinued part and the part that replaces it, e.g. Square D QO120 → QO120PL
+ */
+export interface Supersession {
+    manufacturer: string;
+    partNumber: string;
+    // Empty when the replacement comes from the same manufacturer
+    replacementManufacturer: string;
+    replacementPartNumber: string;
+}
+
+/**
+ * A replacement to try for a BOM line, in the form the matcher looks up
+ */
+export interface Replacement {
+    manufacturer: string;
+    partNumber: string;
+}
+
+// Replacements are followed through at most this many steps (A → B → C ...)
+const MAX_CHAIN_LENGTH = 5;
+
+/**
+ * Column names recognized in an imported cross-reference file, per field
+ */
+const CSV_COLUMN_ALIASES: Record<keyof Supersession, string[]> = {
+    manufacturer: ['manufacturer', 'old manufacturer', 'obsolete manufacturer', 'mfr', 'brand'],
+    partNumber: ['part number', 'old part number', 'old part', 'obsolete part', 'discontinued part', 'part'],
+    replacementManufacturer: ['replacement manufacturer', 'new manufacturer', 'new mfr'],
+    replacementPartNumber: [
+        'replacement part number', 'replacement part', 'replacement', 'new part number', 'new part',
+        'superseded by', 'replaced by'
+    ]
+};
+
+/**
+ * Builds the lookup key of a manufacturer and part number
+ * @param manufacturer The manufacturer name
+ * @param partNumber The part number
+ * @param manufacturerAliases The alias table used to resolve the manufacturer
+ * @returns The canonical manufacturer and the part number without separators
+ */
+function supersessionKey(manufacturer: string, partNumber: string, manufacturerAliases: ManufacturerAliasTable): string {
+    const canonical = resolveManufacturer(manufacturer.trim(), manufacturerAliases).toLowerCase().replace(/[^a-z0-9]/g, '');
+    return `${canonical}|${tokenize(partNumber).join('')}`;
+}
+
+/**
+ * Lists the replacements of a part, following superseded replacements to the newest part
+ * @param table The cross-reference table
+ * @param manufacturer The manufacturer name from the BOM
+ * @param partNumber The part number from the BOM
+ * @param manufacturerAliases The alias table used to compare manufacturers
+ * @returns The replacements, nearest first; empty if the part is not superseded
+ */
+export function findReplacements(
+    table: Supersession[],
+    manufacturer: string,
+    partNumber: string,
+    manufacturerAliases: ManufacturerAliasTable = {}
+): Replacement[] {
+    const byKey = new Map<string, Supersession>();
+    for (const row of table) {
+        byKey.set(supersessionKey(row.manufacturer, row.partNumber, manufacturerAliases), row);
+    }
+
+    const replacements: Replacement[] = [];
+    const seen = new Set<string>([supersessionKey(manufacturer, partNumber, manufacturerAliases)]);
+    let current = byKey.get(supersessionKey(manufacturer, partNumber, manufacturerAliases));
+
+    while (current && replacements.length < MAX_CHAIN_LENGTH) {
+        const next: Replacement = {
+            manufacturer: current.replacementManufacturer || current.manufacturer,
+            partNumber: current.replacementPartNumber
+        };
+        const key = supersessionKey(next.manufacturer, next.partNumber, manufacturerAliases);
+        if (seen.has(key)) {
+            break;
+        }
+
+        seen.add(key);
+        replacements.push(next);
+        current = byKey.get(key);
+    }
+
+    return replacements;
+}
+
+/**
+ * Checks every row of a cross-reference table
+ * @param table The rows to check
+ * @returns A description of the first problem, or null if all rows are valid
+ */
+export function validateSupersessions(table: Supersession[]): string | null {
+    for (const row of table) {
+        if (!row.manufacturer || !row.partNumber) {
+            return `A superseded part needs a manufacturer and part number (replacement ${row.replacementPartNumber || 'blank'})`;
+        }
+        if (!row.replacementPartNumber) {
+            return `${row.manufacturer} ${row.partNumber} has no replacement part number`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Reads a cross-reference table from CSV text. A header row naming the columns
+ * (e.g. "Manufacturer, Part Number, Replacement Part Number") is recognized;
+ * without one, three columns are read as manufacturer, old part, new part and
+ * four as old manufacturer, old part, new manufacturer, new part.
+ * @param text The CSV text
+ * @returns The rows, and the line numbers of rows that could not be read
+ */
+export function parseSupersessionCsv(text: string): { supersessions: Supersession[]; skippedLines: number[] } {
+    const parsed: Array<{ record: string[]; info: { lines: number } }> = parse(text, {
+        delimiter: detectDelimiter(text),
+        trim: true,
+        skip_empty_lines: true,
+        relax_column_count: true,
+        relax_quotes: true,
+        info: true
+    });
+
+    if (parsed.length === 0) {
+        return { supersessions: [], skippedLines: [] };
+    }
+
+    const normalize = (cell: string) => cell.toLowerCase().replace(/[_\-.\s]+/g, ' ').trim();
+    const header = parsed[0].record.map(normalize);
+    const columnOf = (field: keyof Supersession) =>
+        CSV_COLUMN_ALIASES[field].map(alias => header.indexOf(alias)).find(index => index !== -1) ?? -1;
+
+    let columns: Record<keyof Supersession, number>;
+    let dataRows = parsed;
+
+    if (columnOf('partNumber') !== -1 && columnOf('replacementPartNumber') !== -1) {
+        columns = {
+            manufacturer: columnOf('manufacturer'),
+            partNumber: columnOf('partNumber'),
+            replacementManufacturer: columnOf('replacementManufacturer'),
+            replacementPartNumber: columnOf('replacementPartNumber')
+        };
+        dataRows = parsed.slice(1);
+    } else if (parsed[0].record.length >= 4) {
+        columns = { manufacturer: 0, partNumber: 1, replacementManufacturer: 2, replacementPartNumber: 3 };
+    } else {
+        columns = { manufacturer: 0, partNumber: 1, replacementManufacturer: -1, replacementPartNumber: 2 };
+    }
+
+    const supersessions: Supersession[] = [];
+    const skippedLines: number[] = [];
+    const cell = (row: string[], index: number) => (index === -1 ? '' : (row[index] || '').trim());
+
+    for (const { record, info } of dataRows) {
+        const supersession: Supersession = {
+            manufacturer: cell(record, columns.manufacturer),
+            partNumber: cell(record, columns.partNumber),
+            replacementManufacturer: cell(record, columns.replacementManufacturer),
+            replacementPartNumber: cell(record, columns.replacementPartNumber)
+        };
+
+        if (validateSupersessions([supersession])) {
+            skippedLines.push(info.lines);
+        } else {
+            supersessions.push(supersession);
+        }
+    }
+
+    return { supersessions, skippedLines };
+}
+
+/**
+ * Reads a cross-reference table from a CSV file, detecting its encoding
+ * @param filePath Path to the CSV file
+ * @returns The rows, and the line numbers of rows that could not be read
+ */
+export async function readSupersessionCsv(filePath: string): Promise<{ supersessions: Supersession[]; skippedLines: number[] }> {
+    const { text } = decodeBomBuffer(await fs.readFile(filePath));
+    return parseSupersessionCsv(text);
+}
+
+/**
+ * Adds imported rows to a cross-reference table; an imported row replaces the
+ * existing row for the same manufacturer and part number
+ * @param table The current table
+ * @param imported The imported rows
+ * @param manufacturerAliases The alias table used to compare manufacturers
+ * @returns The combined table
+ */
+export function mergeSupersessions(
+    table: Supersession[],
+    imported: Supersession[],
+    manufacturerAliases: ManufacturerAliasTable = {}
+): Supersession[] {
+    const byKey = new Map<string, Supersession>();
+    for (const row of [...table, ...imported]) {
+        byKey.set(supersessionKey(row.manufacturer, row.partNumber, manufacturerAliases), row);
+    }
+
+    return [...byKey.values()];
+}
@@ -0,0 +1,115 @@
+import { tokenize } from './match-scoring';
+
+/**
+ * Inverted index from filename trigrams to the files containing them, so a part
+ * number is only scored against files that share enough of its characters
+ */
+export interface TokenIndex {
+    postings: Map<string, Set<string>>;
+}
+
+// Share of a part number's trigrams a filename needs to be scored at all;
+// low enough to keep near misses such as LC1D09BD vs LC1D09B7
+const MIN_SHARED_TRIGRAM_RATIO = 0.4;
+
+/**
+ * Lists the distinct three-character sequences of a name, ignoring case and separators
+ * @param value The filename or part number
+ * @returns The trigrams
+ */
+export function trigrams(value: string): string[] {
+    const normalized = tokenize(value).join('');
+    const result = new Set<string>();
+
+    for (let i = 0; i + 3 <= normalized.length; i++) {
+        result.add(normalized.slice(i, i + 3));
+    }
+
+    return [...result];
+}
+
+/**
+ * Creates an empty token index
+ * @returns The index
+ */
+export function createTokenIndex(): TokenIndex {
+    return { postings: new Map() };
+}
+
+/**
+ * Adds a file to the index
+ * @param index The index
+ * @param key The file's key, usually its path
+ * @param fileName The filename to index
+ */
+export function addToTokenIndex(index: TokenIndex, key: string, fileName: string): void {
+    for (const trigram of trigrams(fileName)) {
+        let keys = index.postings.get(trigram);
+        if (!keys) {
+            keys = new Set();
+            index.postings.set(trigram, keys);
+        }
+        keys.add(key);
+    }
+}
+
+/**
+ * Removes a file from the index
+ * @param index The index
+ * @param key The file's key
+ * @param fileName The filename it was indexed under
+ */
+export function removeFromTokenIndex(index: TokenIndex, key: string, fileName: string): void {
+    for (const trigram of trigrams(fileName)) {
+        const keys = index.postings.get(trigram);
+        if (keys) {
+            keys.delete(key);
+            if (keys.size === 0) {
+                index.postings.delete(trigram);
+            }
+        }
+    }
+}
+
+/**
+ * Builds an index over a list of files
+ * @param files The files, keyed by path
+ * @returns The index
+ */
+export function buildTokenIndex(files: Array<{ pdfPath: string; fileName: string }>): TokenIndex {
+    const index = createTokenIndex();
+    files.forEach(file => addToTokenIndex(index, file.pdfPath, file.fileName));
+    return index;
+}
+
+/**
+ * Finds the files that could match a part number
+ * @param index The index
+ * @param partNumber The part number from the BOM
+ * @returns Keys of the files sharing enough trigrams, or null when the part
+ * number is too short to narrow the search
+ */
+export function lookupTokenIndex(index: TokenIndex, partNumber: string): string[] | null {
+    const partTrigrams = trigrams(partNumber);
+
+    if (partTrigrams.length === 0) {
+        return null;
+    }
+
+    const required = Math.max(1, Math.ceil(partTrigrams.length * MIN_SHARED_TRIGRAM_RATIO));
+    const counts = new Map<string, number>();
+
+    for (const trigram of partTrigrams) {
+        const keys = index.postings.get(trigram);
+        if (!keys) {
+            continue;
+        }
+        for (const key of keys) {
+            counts.set(key, (counts.get(key) || 0) + 1);
+        }
+    }
+
+    return [...counts.entries()]
+        .filter(([, count]) => count >= required)
+        .map(([key]) => key);
+}
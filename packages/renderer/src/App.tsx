@@ -1,41 +1,246 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import WorkbookSheetPicker from './components/WorkbookSheetPicker';
+import ColumnMappingWizard from './components/ColumnMappingWizard';
+import BomIssuesPanel from './components/BomIssuesPanel';
+import SettingsPanel from './components/SettingsPanel';
+import ProjectMetadataForm from './components/ProjectMetadataForm';
 import './App.css';
 
 // Extend MatchResult to support manual overrides
-type MatchResult = {
-  manufacturer: string;
-  partNumber: string;
-  matched: boolean;
-  pdfPath?: string;
-  fileName?: string;
+type MatchResult = BomMatchResult & {
   overridden?: boolean; // Flag to indicate manually overridden matches
+  learnedKey?: string; // Key the override was remembered under, to forget it when the override is cleared
+  beforeOverride?: MatchResult; // The line as matched, restored when the override is cleared
+};
+
+// BOM files that are read as Excel workbooks rather than CSV
+const isWorkbookPath = (filePath: string) => /\.(xlsx|xlsm|xls)$/i.test(filePath);
+
+// A mapping is still usable when every column it names exists in the BOM's headers
+const isMappingValid = (mapping: ColumnMapping, headers: string[]) => {
+  const columns = Object.values(mapping).filter(Boolean);
+  return columns.length > 0 && columns.every(column => headers.includes(column as string));
+};
+
+// A line goes into the package with its matched PDF, its attached documents, or both;
+// documents attached to an unmatched or ambiguous line are merged on their own
+const hasDocumentsToMerge = (result: MatchResult) =>
+  Boolean((result.matched && result.pdfPath) || (result.attachments && result.attachments.length > 0));
+
+// Last segment of a folder path, for showing which library root a PDF came from
+const folderName = (folderPath: string) => folderPath.split(/[\\/]/).filter(Boolean).pop() || folderPath;
+
+// Match confidence as a percentage, e.g. 0.61 → "61%"
+const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+// Where the part number was found, e.g. "text on page 2" or "family sheet GV2ME*"
+const describeSource = ({ source, page, matchType, family }: Partial<MatchCandidate>) => {
+  if (matchType === 'family') {
+    return family ? `family sheet ${family}` : 'family sheet';
+  }
+  if (source === 'metadata') {
+    return 'PDF metadata';
+  }
+  if (source === 'pageText') {
+    return page ? `text on page ${page}` : 'page text';
+  }
+  if (source === 'learned') {
+    return 'remembered';
+  }
+  if (source === 'rule') {
+    return 'filename rule';
+  }
+  if (source === 'kit') {
+    return 'kit document';
+  }
+  return 'filename';
+};
+
+// Revision and date of a sheet, e.g. "Rev E · 2023-05-12"
+const describeRevision = ({ revision, sheetDate }: Partial<MatchCandidate>) =>
+  [revision && `Rev ${revision}`, sheetDate].filter(Boolean).join(' · ');
+
+// The discontinued part a replacement stands in for, with its manufacturer if that changed
+const describeSuperseded = ({ manufacturer, supersedes }: BomMatchResult) =>
+  supersedes && (supersedes.manufacturer === manufacturer
+    ? supersedes.partNumber
+    : `${supersedes.manufacturer} ${supersedes.partNumber}`);
+
+// Cover sheet details of a new session
+const EMPTY_PROJECT_METADATA: ProjectMetadata = {
+  projectName: '',
+  projectNumber: '',
+  customer: '',
+  engineerOfRecord: '',
+  contractor: '',
+  submittalNumber: '',
+  revision: '',
+  date: ''
+};
+
+// Display names for detected CSV delimiters
+const DELIMITER_NAMES: Record<string, string> = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+  '|': 'pipe',
+};
+
+// Summarize how the BOM file was read, e.g. "UTF-16LE, semicolon-delimited, header on line 4"
+const describeDetection = (detected: BomDetection, isWorkbook: boolean) => {
+  const parts: string[] = [];
+  if (detected.encoding) {
+    parts.push(detected.encoding.toUpperCase());
+  }
+  if (detected.delimiter) {
+    parts.push(`${DELIMITER_NAMES[detected.delimiter] || `"${detected.delimiter}"`}-delimited`);
+  }
+  parts.push(`header on ${isWorkbook ? 'row' : 'line'} ${detected.headerRowIndex + 1}`);
+  return parts.join(', ');
 };
 
 type ResultSummary = {
   total: number;
   matched: number;
+  ambiguous?: number;
   notFound: number;
 };
 
+// Recount the summary after results change in the table
+const summarizeResults = (results: MatchResult[]): ResultSummary => {
+  const matched = results.filter(r => r.matched).length;
+  const ambiguous = results.filter(r => r.ambiguous).length;
+  return {
+    total: results.length,
+    matched,
+    ambiguous,
+    notFound: results.length - matched - ambiguous
+  };
+};
+
 function App() {
   const [pdfFiles, setPdfFiles] = useState<string[]>([]);
+  const [libraryRoots, setLibraryRoots] = useState<string[]>([]);
+  const [indexStatus, setIndexStatus] = useState<LibraryIndexStatus | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [pdfDirectory, setPdfDirectory] = useState<string | null>(null);
   const [csvFilePath, setCsvFilePath] = useState<string | null>(null);
+  const [bomSheets, setBomSheets] = useState<WorkbookSheetInfo[]>([]);
+  const [bomSheetName, setBomSheetName] = useState<string | null>(null);
+  // null lets the parser detect the header row
+  const [bomHeaderRowIndex, setBomHeaderRowIndex] = useState<number | null>(null);
+  const [bomPreview, setBomPreview] = useState<BomPreview | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  // Latest mapping, read by the preview effect without re-reading the BOM on every mapping edit
+  const columnMappingRef = useRef<ColumnMapping>(columnMapping);
+  columnMappingRef.current = columnMapping;
+  const [mappingProfileName, setMappingProfileName] = useState<string | null>(null);
   const [results, setResults] = useState<ResultSummary | null>(null);
   const [detailedResults, setDetailedResults] = useState<MatchResult[]>([]);
+  const [bomIssues, setBomIssues] = useState<BomRowIssue[]>([]);
+  const [bomIssuesAcknowledged, setBomIssuesAcknowledged] = useState(false);
+  const [consolidateDuplicates, setConsolidateDuplicates] = useState(false);
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
   const [outputDirectory, setOutputDirectory] = useState<string | null>(null);
+  const [projectMetadata, setProjectMetadata] = useState<ProjectMetadata>(EMPTY_PROJECT_METADATA);
   const [sessionFile, setSessionFile] = useState<string | null>(null);
   const [hasChanges, setHasChanges] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
 
   // Track changes to determine if session needs saving
   useEffect(() => {
     if (detailedResults.length > 0) {
       setHasChanges(true);
     }
-  }, [detailedResults, pdfDirectory, csvFilePath, outputDirectory]);
+  }, [detailedResults, pdfDirectory, csvFilePath, bomSheetName, bomHeaderRowIndex, columnMapping, outputDirectory]);
+
+  // Read the BOM headers whenever the file, sheet or header row changes so columns can be mapped
+  useEffect(() => {
+    if (!csvFilePath) {
+      setBomPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadPreview = async () => {
+      try {
+        const result = await window.electron.previewBom(csvFilePath, {
+          sheetName: bomSheetName || undefined,
+          headerRowIndex: bomHeaderRowIndex ?? undefined
+        });
+
+        if (cancelled) {
+          return;
+        }
+
+        if (result.success && result.preview) {
+          const { headers } = result.preview;
+          setBomPreview(result.preview);
+
+          // Keep a mapping that still fits (e.g. restored from a session), otherwise use the suggestion
+          if (!isMappingValid(columnMappingRef.current, headers)) {
+            setColumnMapping(result.suggestedMapping || {});
+            setMappingProfileName(result.profileName || null);
+          }
+        } else {
+          setBomPreview(null);
+          setMessage(result.error || 'Failed to read BOM columns');
+        }
+      } catch (error) {
+        console.error('Error previewing BOM:', error);
+      }
+    };
+
+    loadPreview();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [csvFilePath, bomSheetName, bomHeaderRowIndex]);
+
+  // Library folders are searched in addition to the PDF directory
+  useEffect(() => {
+    window.electron.getLibrarySettings().then(settings => setLibraryRoots(settings.roots));
+  }, []);
+
+  const changeLibrarySettings = (settings: LibrarySettings) => {
+    setLibraryRoots(settings.roots);
+    if (pdfDirectory) {
+      scanPdfDirectory(pdfDirectory);
+    }
+  };
+
+  // Discard the library index and index every folder again
+  const rebuildIndex = async () => {
+    if (!pdfDirectory) {
+      return;
+    }
+
+    setIsLoading(true);
+    setMessage('Rebuilding library index...');
+    try {
+      const result = await window.electron.rebuildLibraryIndex(pdfDirectory);
+      if (result.success && result.status) {
+        setIndexStatus(result.status);
+        setMessage(`Library index rebuilt: ${result.status.fileCount} PDFs indexed`);
+      } else {
+        setMessage(result.error || 'Failed to rebuild library index');
+      }
+    } catch (error) {
+      console.error('Error rebuilding library index:', error);
+      setMessage(`Error: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+    await scanPdfDirectory(pdfDirectory);
+  };
+
+  const changeColumnMapping = (mapping: ColumnMapping, profileName: string | null) => {
+    setColumnMapping(mapping);
+    setMappingProfileName(profileName);
+  };
 
   const selectPdfDirectory = async () => {
     try {
@@ -53,18 +258,45 @@ function App() {
 
   const selectCsvFile = async () => {
     try {
-      const filePath = await window.electron.selectFile('.csv');
+      const filePath = await window.electron.selectFile('.csv,.xlsx,.xls');
       if (filePath) {
         setCsvFilePath(filePath);
         setHasChanges(true);
-        setMessage(`CSV file selected: ${filePath.split('/').pop()}`);
+        setBomSheetName(null);
+        setBomHeaderRowIndex(null);
+        setColumnMapping({});
+        setMappingProfileName(null);
+        await loadBomSheets(filePath);
+        setMessage(`BOM file selected: ${filePath.split('/').pop()}`);
       }
     } catch (error) {
-      console.error('Error selecting CSV file:', error);
+      console.error('Error selecting BOM file:', error);
       setMessage(`Error: ${(error as Error).message}`);
     }
   };
 
+  // Read the worksheet list of an Excel BOM so the user can choose the sheet and header row
+  const loadBomSheets = async (filePath: string) => {
+    if (!isWorkbookPath(filePath)) {
+      setBomSheets([]);
+      return;
+    }
+
+    const result = await window.electron.listBomSheets(filePath);
+
+    if (result.success && result.sheets) {
+      setBomSheets(result.sheets);
+    } else {
+      setBomSheets([]);
+      setMessage(result.error || 'Failed to read workbook');
+    }
+  };
+
+  const selectBomSheet = (sheetName: string) => {
+    setBomSheetName(sheetName);
+    setBomHeaderRowIndex(null);
+  };
+
   const selectOutputDirectory = async () => {
     try {
       const directory = await window.electron.selectFolder();
@@ -89,7 +321,7 @@ function App() {
 
   const processBom = async () => {
     if (!csvFilePath) {
-      setMessage('Please select a CSV file first');
+      setMessage('Please select a BOM file first');
       return;
     }
 
@@ -101,10 +333,19 @@ function App() {
     setIsLoading(true);
     setResults(null);
     setDetailedResults([]);
+    setBomIssues([]);
+    setBomIssuesAcknowledged(false);
     setHasChanges(true);
 
     try {
-      const result = await window.electron.processBom(csvFilePath, pdfDirectory);
+      const result = await window.electron.processBom(csvFilePath, pdfDirectory, {
+        sheetName: bomSheetName || undefined,
+        headerRowIndex: bomHeaderRowIndex ?? undefined,
+        mapping: columnMapping,
+        consolidateDuplicates
+      });
+
+      setBomIssues(result.issues || []);
 
       if (result.success && result.summary) {
         setResults(result.summary);
@@ -113,10 +354,13 @@ function App() {
           setDetailedResults(result.results);
         }
 
+        const issueCount = result.issues?.length || 0;
         setMessage(
           `Processed ${result.summary.total} items: ` +
           `${result.summary.matched} matched, ` +
-          `${result.summary.notFound} not found`
+          (result.summary.ambiguous > 0 ? `${result.summary.ambiguous} ambiguous, ` : '') +
+          `${result.summary.notFound} not found` +
+          (issueCount > 0 ? `, ${issueCount} BOM rows rejected` : '')
         );
       } else {
         setMessage(result.error || 'Failed to process BOM');
@@ -135,10 +379,11 @@ function App() {
       const result = await window.electron.scanPdfDirectory(directory);
 
       if (result.success && result.pdfFiles) {
-        // Just get the filenames
-        const fileNames = result.pdfFiles.map(pdf => pdf.fileName);
+        // List files by their path within the library, so subfolders are visible
+        const fileNames = result.pdfFiles.map(pdf => pdf.relativePath);
         setPdfFiles(fileNames);
-        setMessage(`Found ${fileNames.length} PDF files in directory`);
+        setIndexStatus(await window.electron.getLibraryIndexStatus(directory));
+        setMessage(`Found ${fileNames.length} PDF files in the PDF directory and library folders`);
       } else {
         setMessage(result.error || 'Error scanning directory');
       }
@@ -156,36 +401,79 @@ function App() {
       return;
     }
 
-    const matchedResults = detailedResults.filter(result => result.matched && result.pdfPath);
+    if (bomIssues.length > 0 && !bomIssuesAcknowledged) {
+      setMessage('Review and acknowledge the BOM issues before creating the submittal');
+      return;
+    }
+
+    // A near miss must not reach the package unseen: low-confidence matches are confirmed or replaced first
+    const unconfirmed = detailedResults.filter(result => result.matched && result.lowConfidence && !result.overridden);
+    if (unconfirmed.length > 0) {
+      setMessage(
+        `Confirm or replace the ${unconfirmed.length} low-confidence match${unconfirmed.length === 1 ? '' : 'es'} ` +
+        'before creating the submittal'
+      );
+      return;
+    }
+
+    const matchedResults = detailedResults.filter(hasDocumentsToMerge);
 
     if (matchedResults.length === 0) {
       setMessage('No matched PDFs to merge');
       return;
     }
 
+    const missingCount = matchedResults.reduce(
+      (count, result) => count + (result.attachments || []).filter(document => document.missing).length,
+      0
+    );
+    if (missingCount > 0) {
+      setMessage(
+        `${missingCount} attached document${missingCount === 1 ? ' was' : 's were'} not found; ` +
+        'remove or re-add the documents marked missing before creating the submittal'
+      );
+      return;
+    }
+
     setIsGeneratingPdf(true);
     setMessage('Generating merged PDF...');
 
     try {
-      // Get paths of all matched PDFs
-      const pdfPaths = matchedResults.map(result => result.pdfPath as string);
+      // Get paths of all matched PDFs; a line with attached documents passes them all, in order
+      const pdfPaths = matchedResults.map(result => {
+        const documents = [
+          ...(result.matched && result.pdfPath ? [result.pdfPath] : []),
+          ...(result.attachments || []).map(document => document.pdfPath)
+        ];
+        return documents.length === 1 ? documents[0] : documents;
+      });
 
       // Create product info array for the table of contents
-      const productInfo = matchedResults.map(result => ({
+      const productInfo: ProductInfo[] = matchedResults.map(result => ({
         manufacturer: result.manufacturer,
         partNumber: result.partNumber,
-        fileName: result.fileName
+        fileName: result.matched && result.fileName ? result.fileName : result.attachments?.[0].fileName,
+        quantity: result.quantity,
+        tags: result.tags,
+        description: result.description,
+        supersedes: describeSuperseded(result),
+        section: result.section
       }));
 
       // Call the main process to merge PDFs, passing the user-selected output directory if available
       const result = await window.electron.createMergedPdf(
         pdfPaths,
         productInfo,
-        outputDirectory || undefined
+        outputDirectory || undefined,
+        projectMetadata
       );
 
       if (result.success) {
-        setMessage(`Merged PDF created successfully: ${result.outputPath}`);
+        const ambiguousCount = detailedResults.filter(r => r.ambiguous).length;
+        setMessage(
+          `Merged PDF created successfully: ${result.outputPath}` +
+          (ambiguousCount > 0 ? ` (${ambiguousCount} ambiguous lines left out until resolved)` : '')
+        );
 
         // Open the PDF automatically
         if (result.outputPath) {
@@ -202,6 +490,20 @@ function App() {
     }
   };
 
+  // Remember a hand-picked PDF so later jobs with the same part match it automatically;
+  // the line keeps the stored key so clearing the override forgets exactly that entry
+  const rememberMatch = async (index: number, result: BomMatchResult, pdfPath: string) => {
+    const saved = await window.electron.saveLearnedMatch(result.manufacturer, result.partNumber, pdfPath);
+    if (!saved.success || !saved.learnedMatch) {
+      console.error('Error remembering match:', saved.error);
+      return false;
+    }
+
+    const learnedKey = saved.learnedMatch.key;
+    setDetailedResults(prev => prev.map((line, position) => position === index ? { ...line, learnedKey } : line));
+    return true;
+  };
+
   // Function to manually override a PDF match
   const overrideMatch = async (index: number) => {
     try {
@@ -225,23 +527,35 @@ function App() {
         matched: true,
         pdfPath,
         fileName,
-        overridden: true // Mark as manually overridden
+        confidence: undefined,
+        matchType: undefined,
+        source: undefined,
+        page: undefined,
+        rule: undefined,
+        family: undefined,
+        revision: undefined,
+        sheetDate: undefined,
+        stale: undefined,
+        lowConfidence: undefined,
+        ambiguous: undefined,
+        contenders: undefined,
+        overridden: true, // Mark as manually overridden
+        beforeOverride: result.overridden ? result.beforeOverride : result
       };
 
       setDetailedResults(updatedResults);
 
       // Update the summary
       if (results) {
-        const matched = updatedResults.filter(r => r.matched).length;
-        const notFound = updatedResults.length - matched;
-        setResults({
-          ...results,
-          matched,
-          notFound
-        });
+        setResults(summarizeResults(updatedResults));
       }
 
-      setMessage(`Override successful: ${result.manufacturer} ${result.partNumber} → ${fileName}`);
+      const remembered = await rememberMatch(index, result, pdfPath);
+
+      setMessage(
+        `Override successful: ${result.manufacturer} ${result.partNumber} → ${fileName}` +
+        (remembered ? ' (remembered for future jobs)' : '')
+      );
       setHasChanges(true);
     } catch (error) {
       console.error('Error overriding match:', error);
@@ -249,8 +563,72 @@ function App() {
     }
   };
 
+  // Function to pick one of the ranked alternative PDFs for a BOM line
+  const chooseAlternative = async (index: number, candidate: MatchCandidate) => {
+    const result = detailedResults[index];
+
+    // The previous choice stays available as an alternative
+    const previous: MatchCandidate[] = result.matched && result.pdfPath && result.fileName
+      ? [{
+          fileName: result.fileName,
+          pdfPath: result.pdfPath,
+          confidence: result.confidence ?? 0,
+          matchType: result.matchType ?? 'fuzzy',
+          source: result.source,
+          page: result.page,
+          rule: result.rule,
+          family: result.family,
+          revision: result.revision,
+          sheetDate: result.sheetDate,
+          stale: result.stale
+        }]
+      : [];
+
+    const updatedResults = [...detailedResults];
+    updatedResults[index] = {
+      ...result,
+      matched: true,
+      pdfPath: candidate.pdfPath,
+      fileName: candidate.fileName,
+      confidence: candidate.confidence,
+      matchType: candidate.matchType,
+      source: candidate.source,
+      page: candidate.page,
+      rule: candidate.rule,
+      family: candidate.family,
+      revision: candidate.revision,
+      sheetDate: candidate.sheetDate,
+      stale: candidate.stale,
+      lowConfidence: undefined,
+      ambiguous: undefined,
+      contenders: undefined,
+      // Contenders that were not picked become alternatives
+      alternatives: [
+        ...previous,
+        ...(result.contenders || []),
+        ...(result.alternatives || [])
+      ].filter(alt => alt.pdfPath !== candidate.pdfPath),
+      overridden: true,
+      beforeOverride: result.overridden ? result.beforeOverride : result
+    };
+
+    setDetailedResults(updatedResults);
+
+    if (results) {
+      setResults(summarizeResults(updatedResults));
+    }
+
+    const remembered = await rememberMatch(index, result, candidate.pdfPath);
+
+    setMessage(
+      `Using ${candidate.fileName} for ${result.manufacturer} ${result.partNumber}` +
+      (remembered ? ' (remembered for future jobs)' : '')
+    );
+    setHasChanges(true);
+  };
+
   // Function to clear a manual override
-  const clearOverride = (index: number) => {
+  const clearOverride = async (index: number) => {
     try {
       // Get the current result
       const result = detailedResults[index];
@@ -259,30 +637,46 @@ function App() {
         return; // Not an override, nothing to clear
       }
 
-      // Reset to unmatched
+      // Go back to the line as it was matched, ambiguous contenders included, keeping what
+      // was confirmed or attached since; lines overridden before snapshots were kept are reset to unmatched
       const updatedResults = [...detailedResults];
-      updatedResults[index] = {
+      updatedResults[index] = result.beforeOverride ? {
+        ...result.beforeOverride,
+        inferredFrom: result.inferredFrom,
+        attachments: result.attachments
+      } : {
         ...result,
         matched: false,
         pdfPath: undefined,
         fileName: undefined,
-        overridden: undefined
+        confidence: undefined,
+        matchType: undefined,
+        source: undefined,
+        page: undefined,
+        rule: undefined,
+        family: undefined,
+        revision: undefined,
+        sheetDate: undefined,
+        stale: undefined,
+        lowConfidence: undefined,
+        overridden: undefined,
+        learnedKey: undefined
       };
 
       setDetailedResults(updatedResults);
 
       // Update the summary
       if (results) {
-        const matched = updatedResults.filter(r => r.matched).length;
-        const notFound = updatedResults.length - matched;
-        setResults({
-          ...results,
-          matched,
-          notFound
-        });
+        setResults(summarizeResults(updatedResults));
       }
 
-      setMessage(`Override cleared for: ${result.manufacturer} ${result.partNumber}`);
+      // The choice was wrong, so later jobs should not reuse it either
+      const forgotten = result.learnedKey ? await window.electron.deleteLearnedMatch(result.learnedKey) : false;
+
+      setMessage(
+        `Override cleared for: ${result.manufacturer} ${result.partNumber}` +
+        (forgotten ? '' : '. No remembered match was removed; check Settings → Learned Matches')
+      );
       setHasChanges(true);
     } catch (error) {
       console.error('Error clearing override:', error);
@@ -290,10 +684,73 @@ function App() {
     }
   };
 
+  // Function to accept a manufacturer that was inferred from the part number
+  const confirmManufacturer = (index: number) => {
+    const updatedResults = [...detailedResults];
+    updatedResults[index] = { ...updatedResults[index], inferredFrom: undefined };
+    setDetailedResults(updatedResults);
+    setHasChanges(true);
+  };
+
+  // Function to accept a low-confidence match after checking the PDF
+  const confirmMatch = (index: number) => {
+    const updatedResults = [...detailedResults];
+    updatedResults[index] = { ...updatedResults[index], lowConfidence: undefined };
+    setDetailedResults(updatedResults);
+    setHasChanges(true);
+  };
+
+  // Function to attach another document to a BOM line, merged after its cut sheet
+  const addAttachment = async (index: number) => {
+    const pdfPath = await window.electron.selectFile('.pdf');
+    if (!pdfPath) {
+      return;
+    }
+
+    const result = detailedResults[index];
+    const document: AttachedDocument = {
+      pdfPath,
+      fileName: pdfPath.split(/[\\/]/).pop() || pdfPath,
+      source: 'manual'
+    };
+
+    const updatedResults = [...detailedResults];
+    updatedResults[index] = { ...result, attachments: [...(result.attachments || []), document] };
+    setDetailedResults(updatedResults);
+    setHasChanges(true);
+  };
+
+  // Function to drop an attached document from a BOM line
+  const removeAttachment = (index: number, position: number) => {
+    const result = detailedResults[index];
+    const attachments = (result.attachments || []).filter((_, i) => i !== position);
+
+    const updatedResults = [...detailedResults];
+    updatedResults[index] = { ...result, attachments: attachments.length > 0 ? attachments : undefined };
+    setDetailedResults(updatedResults);
+    setHasChanges(true);
+  };
+
+  // Function to move an attached document up or down within its line
+  const moveAttachment = (index: number, position: number, offset: number) => {
+    const result = detailedResults[index];
+    const attachments = [...(result.attachments || [])];
+    const target = position + offset;
+    if (target < 0 || target >= attachments.length) {
+      return;
+    }
+    [attachments[position], attachments[target]] = [attachments[target], attachments[position]];
+
+    const updatedResults = [...detailedResults];
+    updatedResults[index] = { ...result, attachments };
+    setDetailedResults(updatedResults);
+    setHasChanges(true);
+  };
+
   // Save current session to a JSON file
   const saveSession = async () => {
     if (!pdfDirectory || !csvFilePath) {
-      setMessage('Please select both PDF directory and CSV file before saving');
+      setMessage('Please select both PDF directory and BOM file before saving');
       return;
     }
 
@@ -303,7 +760,14 @@ function App() {
       const sessionData: SessionData = {
         pdfDirectory,
         csvFilePath,
+        bomSheetName: bomSheetName || undefined,
+        bomHeaderRowIndex: bomHeaderRowIndex ?? undefined,
+        columnMapping,
+        bomIssues: bomIssues.length > 0 ? bomIssues : undefined,
+        bomIssuesAcknowledged,
+        consolidateDuplicates,
         outputDirectory: outputDirectory || undefined,
+        projectMetadata,
         results: results || undefined,
         detailedResults: detailedResults.length > 0 ? detailedResults : undefined,
         createdAt: sessionFile ? (new Date().toISOString()) : new Date().toISOString(),
@@ -336,12 +800,34 @@ function App() {
       const result = await window.electron.loadSession();
 
       if (result.success && result.sessionData) {
-        const { pdfDirectory, csvFilePath, outputDirectory, results, detailedResults, createdAt } = result.sessionData;
+        const {
+          pdfDirectory,
+          csvFilePath,
+          bomSheetName,
+          bomHeaderRowIndex,
+          columnMapping,
+          bomIssues,
+          bomIssuesAcknowledged,
+          consolidateDuplicates,
+          outputDirectory,
+          projectMetadata,
+          results,
+          detailedResults,
+          createdAt
+        } = result.sessionData;
 
         // Set session state
         setPdfDirectory(pdfDirectory);
         setCsvFilePath(csvFilePath);
+        setBomSheetName(bomSheetName || null);
+        setBomHeaderRowIndex(bomHeaderRowIndex ?? null);
+        setColumnMapping(columnMapping || {});
+        setMappingProfileName(null);
+        setBomIssues(bomIssues || []);
+        setBomIssuesAcknowledged(bomIssuesAcknowledged || false);
+        setConsolidateDuplicates(consolidateDuplicates || false);
         setOutputDirectory(outputDirectory || null);
+        setProjectMetadata({ ...EMPTY_PROJECT_METADATA, ...projectMetadata });
         setResults(results || null);
         setDetailedResults(detailedResults || []);
         setSessionFile(createdAt);
@@ -349,8 +835,17 @@ function App() {
 
         // Scan the PDF directory to update available files
         await scanPdfDirectory(pdfDirectory);
+        await loadBomSheets(csvFilePath);
 
-        setMessage('Session loaded successfully');
+        const missingCount = (detailedResults || []).reduce(
+          (count, line) => count + (line.attachments || []).filter(document => document.missing).length,
+          0
+        );
+        setMessage(
+          missingCount > 0
+            ? `Session loaded; ${missingCount} attached document${missingCount === 1 ? ' is' : 's are'} missing`
+            : 'Session loaded successfully'
+        );
       } else {
         setMessage(`Error loading session: ${result.error}`);
       }
@@ -377,15 +872,31 @@ function App() {
     // Reset all state
     setPdfDirectory(null);
     setCsvFilePath(null);
+    setBomSheets([]);
+    setBomSheetName(null);
+    setBomHeaderRowIndex(null);
+    setBomPreview(null);
+    setColumnMapping({});
+    setMappingProfileName(null);
     setOutputDirectory(null);
+    setProjectMetadata(EMPTY_PROJECT_METADATA);
     setResults(null);
     setDetailedResults([]);
+    setBomIssues([]);
+    setBomIssuesAcknowledged(false);
+    setConsolidateDuplicates(false);
     setPdfFiles([]);
+    setIndexStatus(null);
     setSessionFile(null);
     setHasChanges(false);
     setMessage('New session started');
   };
 
+  // Low-confidence matches nobody has confirmed yet
+  const reviewCount = detailedResults.filter(r =>
+    (r.matched && r.lowConfidence && !r.overridden) || r.inferredFrom
+  ).length;
+
   return (
     <div className="app">
       <h1>Submittal Manager</h1>
@@ -412,6 +923,12 @@ function App() {
         >
           {hasChanges ? "Save Session*" : "Save Session"}
         </button>
+        <button
+          onClick={() => setShowSettings(!showSettings)}
+          className="session-button settings-button-toggle"
+        >
+          {showSettings ? "Hide Settings" : "Settings"}
+        </button>
         {sessionFile && (
           <div className="session-info">
             Session file: {sessionFile.split('/').pop()}
@@ -419,6 +936,14 @@ function App() {
         )}
       </div>
 
+      {showSettings && (
+        <SettingsPanel
+          onClose={() => setShowSettings(false)}
+          onLibraryChanged={changeLibrarySettings}
+          pdfDirectory={pdfDirectory}
+        />
+      )}
+
       <div className="main-container">
         <div className="input-section">
           <div className="file-input-group">
@@ -434,27 +959,63 @@ function App() {
               {pdfDirectory && (
                 <div className="file-info">
                   <p>{pdfDirectory}</p>
-                  <p className="file-count">{pdfFiles.length} PDFs found</p>
+                  <p className="file-count">
+                    {indexStatus ? indexStatus.fileCount : pdfFiles.length} PDFs indexed
+                    {libraryRoots.length > 0 &&
+                      ` (including ${libraryRoots.length} library ${libraryRoots.length === 1 ? 'folder' : 'folders'})`}
+                    {indexStatus?.updatedAt && `, updated ${new Date(indexStatus.updatedAt).toLocaleString()}`}
+                  </p>
+                  <button
+                    className="rebuild-index-button"
+                    onClick={rebuildIndex}
+                    disabled={isLoading || isGeneratingPdf}
+                    title="Discard the saved index and read every PDF again"
+                  >
+                    Rebuild Index
+                  </button>
                 </div>
               )}
             </div>
           </div>
 
           <div className="file-input-group">
-            <h2>2. Select BOM CSV File</h2>
+            <h2>2. Select BOM File</h2>
             <div className="file-input-container">
               <button
                 onClick={selectCsvFile}
                 disabled={isLoading || isGeneratingPdf}
                 className="file-select-button"
               >
-                {csvFilePath ? 'Change CSV File' : 'Select CSV File'}
+                {csvFilePath ? 'Change BOM File' : 'Select BOM File'}
               </button>
               {csvFilePath && (
                 <div className="file-info">
                   <p>{csvFilePath.split('/').pop()}</p>
+                  {bomPreview && (
+                    <p className="file-count">Detected: {describeDetection(bomPreview.detected, isWorkbookPath(csvFilePath))}</p>
+                  )}
                 </div>
               )}
+              {csvFilePath && bomSheets.length > 0 && (
+                <WorkbookSheetPicker
+                  sheets={bomSheets}
+                  sheetName={bomSheetName}
+                  headerRowIndex={bomHeaderRowIndex ?? bomPreview?.detected.headerRowIndex ?? 0}
+                  onSheetChange={selectBomSheet}
+                  onHeaderRowChange={setBomHeaderRowIndex}
+                  disabled={isLoading || isGeneratingPdf}
+                />
+              )}
+              {csvFilePath && bomPreview && (
+                <ColumnMappingWizard
+                  preview={bomPreview}
+                  mapping={columnMapping}
+                  profileName={mappingProfileName}
+                  onMappingChange={changeColumnMapping}
+                  onMessage={setMessage}
+                  disabled={isLoading || isGeneratingPdf}
+                />
+              )}
             </div>
           </div>
 
@@ -476,7 +1037,33 @@ function App() {
             </div>
           </div>
 
+          <div className="file-input-group">
+            <h2>4. Cover Sheet (Optional)</h2>
+            <div className="file-input-container">
+              <ProjectMetadataForm
+                metadata={projectMetadata}
+                onChange={metadata => {
+                  setProjectMetadata(metadata);
+                  setHasChanges(true);
+                }}
+                disabled={isLoading || isGeneratingPdf}
+              />
+            </div>
+          </div>
+
           <div className="submit-section">
+            <label className="option-checkbox">
+              <input
+                type="checkbox"
+                checked={consolidateDuplicates}
+                onChange={e => {
+                  setConsolidateDuplicates(e.target.checked);
+                  setHasChanges(true);
+                }}
+                disabled={isLoading || isGeneratingPdf}
+              />
+              Combine duplicate lines (sum quantities, collect tags)
+            </label>
             <button
               onClick={processBom}
               disabled={isLoading || isGeneratingPdf || !pdfDirectory || !csvFilePath}
@@ -510,27 +1097,51 @@ function App() {
                   <span className="stat-value">{results.matched}</span>
                   <span className="stat-label">Matched</span>
                 </div>
+                <div className="stat">
+                  <span className="stat-value">{results.ambiguous ?? 0}</span>
+                  <span className="stat-label">Ambiguous</span>
+                </div>
                 <div className="stat">
                   <span className="stat-value">{results.notFound}</span>
                   <span className="stat-label">Not Found</span>
                 </div>
+                <div className="stat">
+                  <span className="stat-value">{reviewCount}</span>
+                  <span className="stat-label">Needs Review</span>
+                </div>
               </div>
 
-              {results.matched > 0 && (
+              {detailedResults.some(hasDocumentsToMerge) && (
                 <div className="merge-pdf-container">
                   <button
                     className="merge-pdf-button"
                     onClick={createMergedPdf}
-                    disabled={isLoading || isGeneratingPdf}
+                    disabled={isLoading || isGeneratingPdf || (bomIssues.length > 0 && !bomIssuesAcknowledged)}
                   >
                     {isGeneratingPdf ? 'Creating PDF...' : 'Create Merged Submittal PDF'}
                   </button>
-                  <p className="merge-help-text">Creates a single PDF containing all matched cut sheets</p>
+                  <p className="merge-help-text">
+                    {bomIssues.length > 0 && !bomIssuesAcknowledged
+                      ? 'Acknowledge the BOM issues below to enable merging'
+                      : (results.ambiguous ?? 0) > 0
+                        ? 'Ambiguous lines are left out until you choose a PDF for them'
+                        : 'Creates a single PDF containing all matched cut sheets and attached documents'}
+                  </p>
                 </div>
               )}
             </div>
           )}
 
+          <BomIssuesPanel
+            issues={bomIssues}
+            acknowledged={bomIssuesAcknowledged}
+            onAcknowledge={() => {
+              setBomIssuesAcknowledged(true);
+              setHasChanges(true);
+            }}
+            disabled={isLoading || isGeneratingPdf}
+          />
+
           {detailedResults.length > 0 && (
             <div className="results-table-container">
               <h3>Detailed Results</h3>
@@ -540,7 +1151,10 @@ function App() {
                     <tr>
                       <th>Manufacturer</th>
                       <th>Part Number</th>
+                      <th>Qty</th>
+                      <th>Tags</th>
                       <th>Status</th>
+                      <th>Confidence</th>
                       <th>PDF Filename</th>
                       <th>Actions</th>
                     </tr>
@@ -551,26 +1165,181 @@ function App() {
                         result.overridden
                           ? 'row-overridden'
                           : result.matched
-                            ? 'row-matched'
-                            : 'row-not-matched'
+                            ? result.lowConfidence ? 'row-low-confidence' : 'row-matched'
+                            : result.ambiguous ? 'row-ambiguous' : 'row-not-matched'
                       }>
-                        <td>{result.manufacturer}</td>
-                        <td>{result.partNumber}</td>
+                        <td>
+                          {result.manufacturer}
+                          {result.inferredFrom && (
+                            <span className="inferred-manufacturer">
+                              <span className="review-flag" title={`Inferred from the part number by ${result.inferredFrom}`}>
+                                Inferred
+                              </span>
+                              <button className="confirm-manufacturer-button" onClick={() => confirmManufacturer(index)}>
+                                Confirm
+                              </button>
+                            </span>
+                          )}
+                        </td>
+                        <td>
+                          {result.partNumber}
+                          {result.supersedes && (
+                            <span className="result-supersedes" title="The BOM part is discontinued; its replacement's sheet is used">
+                              supersedes {describeSuperseded(result)}
+                            </span>
+                          )}
+                          {result.description && <span className="result-description">{result.description}</span>}
+                        </td>
+                        <td>{result.quantity ?? '-'}</td>
+                        <td className="tags-cell">{result.tags?.join(', ') || '-'}</td>
                         <td className="status-cell">
                           {result.matched ? (
                             <span className={result.overridden ? "status-overridden" : "status-matched"}>
                               {result.overridden ? '⚙️ Override' : '✅ Matched'}
                             </span>
+                          ) : result.ambiguous ? (
+                            <span className="status-ambiguous">❓ Ambiguous</span>
                           ) : (
                             <span className="status-not-matched">❌ Not Found</span>
                           )}
                         </td>
+                        <td className="confidence-cell">
+                          {result.confidence !== undefined && result.matched ? (
+                            <>
+                              <span className={result.lowConfidence ? 'confidence-low' : 'confidence-high'}>
+                                {formatConfidence(result.confidence)}
+                              </span>
+                              {result.lowConfidence && !result.overridden && (
+                                <>
+                                  <span className="review-flag" title="Check this match before merging">Review</span>
+                                  <button className="confirm-match-button" onClick={() => confirmMatch(index)}>
+                                    Confirm
+                                  </button>
+                                </>
+                              )}
+                              <span
+                                className={`match-source match-source-${
+                                  result.matchType === 'family' ? 'family' : result.source || 'filename'
+                                }`}
+                                title={result.rule}
+                              >
+                                {describeSource(result)}
+                              </span>
+                            </>
+                          ) : (
+                            <span className="no-filename">-</span>
+                          )}
+                        </td>
                         <td>
                           {result.fileName ? (
-                            <span className="filename" title={result.pdfPath}>{result.fileName}</span>
+                            <>
+                              <span className="filename" title={result.pdfPath}>{result.fileName}</span>
+                              {result.root && <span className="result-root" title={result.root}>in {folderName(result.root)}</span>}
+                              {(result.revision || result.sheetDate) && (
+                                <span className="result-revision">
+                                  {describeRevision(result)}
+                                  {result.stale && (
+                                    <span className="stale-flag" title="Check the manufacturer for a newer version of this sheet">
+                                      Possibly stale
+                                    </span>
+                                  )}
+                                </span>
+                              )}
+                            </>
+                          ) : result.contenders && result.contenders.length > 0 ? (
+                            <div className="contenders">
+                              <span className="contenders-label">Choose one of {result.contenders.length} equally good matches:</span>
+                              <ul>
+                                {result.contenders.map(candidate => (
+                                  <li key={candidate.pdfPath}>
+                                    <span className="filename" title={candidate.pdfPath}>{candidate.fileName}</span>
+                                    {candidate.root && (
+                                      <span className="result-root" title={candidate.root}>{folderName(candidate.root)}</span>
+                                    )}
+                                    <button
+                                      className="use-alternative-button"
+                                      onClick={() => chooseAlternative(index, candidate)}
+                                    >
+                                      Use
+                                    </button>
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
                           ) : (
                             <span className="no-filename">-</span>
                           )}
+                          {result.alternatives && result.alternatives.length > 0 && (
+                            <details className="alternatives">
+                              <summary>
+                                {result.alternatives.length} {result.matched ? 'other' : 'possible'}{' '}
+                                {result.alternatives.length === 1 ? 'candidate' : 'candidates'}
+                              </summary>
+                              <ul>
+                                {result.alternatives.map(candidate => (
+                                  <li key={candidate.pdfPath}>
+                                    <span className="filename" title={candidate.pdfPath}>{candidate.fileName}</span>
+                                    {candidate.root && (
+                                      <span className="result-root" title={candidate.root}>{folderName(candidate.root)}</span>
+                                    )}
+                                    <span className="alternative-confidence">
+                                      {formatConfidence(candidate.confidence)} {candidate.matchType},{' '}
+                                      {describeSource(candidate)}
+                                      {(candidate.revision || candidate.sheetDate) && `, ${describeRevision(candidate)}`}
+                                      {candidate.olderRevision && ', older revision'}
+                                      {candidate.stale && ', possibly stale'}
+                                    </span>
+                                    <button
+                                      className="use-alternative-button"
+                                      onClick={() => chooseAlternative(index, candidate)}
+                                    >
+                                      Use
+                                    </button>
+                                  </li>
+                                ))}
+                              </ul>
+                            </details>
+                          )}
+                          {result.attachments && result.attachments.length > 0 && (
+                            <ol className="attachments">
+                              {result.attachments.map((document, position) => (
+                                <li key={`${document.pdfPath}-${position}`}>
+                                  <span className="filename" title={document.pdfPath}>{document.fileName}</span>
+                                  <span className={`attachment-source attachment-source-${document.source}`}>
+                                    {document.label || (document.source === 'kit' ? 'kit' : 'added')}
+                                  </span>
+                                  {document.missing && (
+                                    <span className="attachment-missing" title="This file was not found when the session was loaded">
+                                      Missing
+                                    </span>
+                                  )}
+                                  <button
+                                    className="attachment-button"
+                                    onClick={() => moveAttachment(index, position, -1)}
+                                    disabled={position === 0}
+                                    title="Move up"
+                                  >
+                                    ↑
+                                  </button>
+                                  <button
+                                    className="attachment-button"
+                                    onClick={() => moveAttachment(index, position, 1)}
+                                    disabled={position === (result.attachments?.length ?? 0) - 1}
+                                    title="Move down"
+                                  >
+                                    ↓
+                                  </button>
+                                  <button
+                                    className="attachment-button"
+                                    onClick={() => removeAttachment(index, position)}
+                                    title="Remove this document from the line"
+                                  >
+                                    ×
+                                  </button>
+                                </li>
+                              ))}
+                            </ol>
+                          )}
                         </td>
                         <td className="action-cell">
                           {result.overridden ? (
@@ -590,6 +1359,13 @@ function App() {
                               Override
                             </button>
                           )}
+                          <button
+                            className="add-document-button"
+                            onClick={() => addAttachment(index)}
+                            title="Merge another document under this item"
+                          >
+                            + Document
+                          </button>
                         </td>
                       </tr>
                     ))}
@@ -605,19 +1381,21 @@ function App() {
             <h3>Instructions</h3>
             <ol>
               <li>Select a directory containing your PDF cut sheets</li>
-              <li>Select a CSV file with your Bill of Materials</li>
+              <li>Select a CSV or Excel file with your Bill of Materials</li>
               <li>Click "Match BOM to PDFs" to process</li>
               <li>Review matches in the results table</li>
               <li>Manually override any unmatched or incorrect PDFs</li>
               <li>Save your session to continue later</li>
               <li>Create a merged submittal PDF when ready</li>
             </ol>
-            <p>CSV file must include these columns:</p>
+            <p>For Excel workbooks, choose the worksheet and header row after selecting the file.</p>
+            <p>Map the BOM columns to the fields below, and save the mapping as a profile to reuse it for BOMs with the same headers.</p>
+            <p>The BOM must include these columns:</p>
             <ul>
               <li><strong>manufacturer</strong> - The manufacturer name</li>
               <li><strong>part_number</strong> - The part identifier</li>
             </ul>
-            <p>PDF files should include both manufacturer name and part number in the filename.</p>
+            <p>PDF files should include the part number in the filename, and the manufacturer name either in the filename or in a folder name (e.g. Phoenix Contact/2903149.pdf).</p>
           </div>
 
           {pdfFiles.length > 0 && (
@@ -0,0 +1,57 @@
+import './BomIssuesPanel.css';
+
+interface BomIssuesPanelProps {
+  issues: BomRowIssue[];
+  acknowledged: boolean;
+  onAcknowledge: () => void;
+  disabled?: boolean;
+}
+
+const BomIssuesPanel = ({ issues, acknowledged, onAcknowledge, disabled }: BomIssuesPanelProps) => {
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`bom-issues-panel ${acknowledged ? 'acknowledged' : ''}`}>
+      <h3>BOM Issues ({issues.length})</h3>
+      <p className="bom-issues-help">
+        These rows were not included in the match. Fix the BOM and process it again, or
+        acknowledge them to continue without these rows.
+      </p>
+
+      <div className="bom-issues-table-wrapper">
+        <table className="bom-issues-table">
+          <thead>
+            <tr>
+              <th>Line</th>
+              <th>Problem</th>
+              <th>Row</th>
+            </tr>
+          </thead>
+          <tbody>
+            {issues.map((issue, index) => (
+              <tr key={index}>
+                <td>{issue.line}</td>
+                <td className="bom-issue-reason">{issue.message}</td>
+                <td className="bom-issue-values">
+                  {issue.values ? issue.values.filter(Boolean).join(' | ') : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {acknowledged ? (
+        <p className="bom-issues-acknowledged">Issues acknowledged</p>
+      ) : (
+        <button className="bom-issues-acknowledge-button" onClick={onAcknowledge} disabled={disabled}>
+          Acknowledge {issues.length} {issues.length === 1 ? 'issue' : 'issues'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BomIssuesPanel;
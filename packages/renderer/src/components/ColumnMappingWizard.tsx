@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import './ColumnMappingWizard.css';
+
+interface ColumnMappingWizardProps {
+  preview: BomPreview;
+  mapping: ColumnMapping;
+  profileName: string | null;
+  onMappingChange: (mapping: ColumnMapping, profileName: string | null) => void;
+  onMessage?: (message: string) => void;
+  disabled?: boolean;
+}
+
+// The BOM fields a column can be assigned to
+const MAPPING_FIELDS: Array<{ key: keyof ColumnMapping; label: string; required?: boolean }> = [
+  { key: 'manufacturer', label: 'Manufacturer', required: true },
+  { key: 'partNumber', label: 'Part Number', required: true },
+  { key: 'quantity', label: 'Quantity' },
+  { key: 'description', label: 'Description' },
+  { key: 'tag', label: 'Tag' },
+  { key: 'section', label: 'Group By' },
+];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\-.\s]/g, '');
+
+const ColumnMappingWizard = ({
+  preview,
+  mapping,
+  profileName,
+  onMappingChange,
+  onMessage,
+  disabled
+}: ColumnMappingWizardProps) => {
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [newProfileName, setNewProfileName] = useState('');
+
+  const loadProfiles = async () => {
+    try {
+      setProfiles(await window.electron.listMappingProfiles());
+    } catch (error) {
+      console.error('Error loading mapping profiles:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  useEffect(() => {
+    setNewProfileName(profileName || '');
+  }, [profileName]);
+
+  const assignColumn = (field: keyof ColumnMapping, column: string) => {
+    onMappingChange({ ...mapping, [field]: column || undefined }, profileName);
+  };
+
+  // Apply a saved profile, matching its columns to this BOM's headers
+  const applyProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+
+    if (!profile) {
+      onMappingChange(mapping, null);
+      return;
+    }
+
+    const applied: ColumnMapping = {};
+    for (const field of MAPPING_FIELDS) {
+      const column = profile.mapping[field.key];
+      const header = column && preview.headers.find(h => normalizeHeader(h) === normalizeHeader(column));
+      if (header) {
+        applied[field.key] = header;
+      }
+    }
+
+    onMappingChange(applied, profile.name);
+  };
+
+  const saveProfile = async () => {
+    const name = newProfileName.trim();
+    if (!name) {
+      onMessage?.('Enter a profile name to save this mapping');
+      return;
+    }
+
+    const result = await window.electron.saveMappingProfile(name, mapping, preview.headers);
+
+    if (result.success) {
+      await loadProfiles();
+      onMappingChange(mapping, name);
+      onMessage?.(`Mapping profile saved: ${name}`);
+    } else {
+      onMessage?.(`Error saving mapping profile: ${result.error}`);
+    }
+  };
+
+  const deleteProfile = async () => {
+    if (!profileName || !window.confirm(`Delete mapping profile "${profileName}"?`)) {
+      return;
+    }
+
+    await window.electron.deleteMappingProfile(profileName);
+    await loadProfiles();
+    onMappingChange(mapping, null);
+    onMessage?.(`Mapping profile deleted: ${profileName}`);
+  };
+
+  // Reverse lookup so preview columns can show which field they are assigned to
+  const fieldForColumn = (header: string) => MAPPING_FIELDS.find(field => mapping[field.key] === header);
+  const missingRequired = MAPPING_FIELDS.filter(field => field.required && !mapping[field.key]);
+
+  return (
+    <div className="column-mapping-wizard">
+      <div className="mapping-profile-row">
+        <label>
+          Mapping profile
+          <select
+            value={profileName || ''}
+            onChange={e => applyProfile(e.target.value)}
+            disabled={disabled}
+          >
+            <option value="">- none -</option>
+            {profiles.map(profile => (
+              <option key={profile.name} value={profile.name}>{profile.name}</option>
+            ))}
+          </select>
+        </label>
+        {profileName && (
+          <button className="mapping-delete-button" onClick={deleteProfile} disabled={disabled}>
+            Delete
+          </button>
+        )}
+      </div>
+
+      <div className="mapping-fields">
+        {MAPPING_FIELDS.map(field => (
+          <label key={field.key}>
+            {field.label}{field.required ? ' *' : ''}
+            <select
+              value={mapping[field.key] || ''}
+              onChange={e => assignColumn(field.key, e.target.value)}
+              disabled={disabled}
+            >
+              <option value="">- not mapped -</option>
+              {preview.headers.map(header => (
+                <option key={header} value={header}>{header}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {missingRequired.length > 0 && (
+        <p className="mapping-warning">
+          Not mapped: {missingRequired.map(field => field.label).join(', ')}. Common column names will be tried instead.
+        </p>
+      )}
+
+      <div className="mapping-preview">
+        <table>
+          <thead>
+            <tr>
+              {preview.headers.map(header => {
+                const field = fieldForColumn(header);
+                return (
+                  <th key={header} className={field ? 'mapped-column' : ''}>
+                    {header}
+                    {field && <span className="mapped-field">{field.label}</span>}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {preview.rows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.map((cell, cellIndex) => (
+                  <td key={cellIndex}>{cell}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mapping-help">
+        Showing {preview.rows.length} of {preview.totalRows} rows
+      </p>
+
+      <div className="mapping-save-row">
+        <input
+          type="text"
+          placeholder="Profile name (e.g. customer)"
+          value={newProfileName}
+          onChange={e => setNewProfileName(e.target.value)}
+          disabled={disabled}
+        />
+        <button className="mapping-save-button" onClick={saveProfile} disabled={disabled}>
+          Save Profile
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+
+const FIELD_LABELS: Record<CoverField, string> = {
+  projectName: 'Project',
+  projectNumber: 'Project No.',
+  customer: 'Customer',
+  engineerOfRecord: 'Engineer of Record',
+  contractor: 'Contractor',
+  submittalNumber: 'Submittal No.',
+  revision: 'Revision',
+  date: 'Date'
+};
+
+const ALL_FIELDS = Object.keys(FIELD_LABELS) as CoverField[];
+
+const CoverLayoutEditor = () => {
+  const [title, setTitle] = useState<string>('');
+  const [logoPosition, setLogoPosition] = useState<CoverSheetLayout['logoPosition']>('left');
+  const [logoMaxHeight, setLogoMaxHeight] = useState<number>(72);
+  const [alignment, setAlignment] = useState<CoverSheetLayout['alignment']>('left');
+  // Every field in display order; hidden fields follow the shown ones
+  const [order, setOrder] = useState<CoverField[]>(ALL_FIELDS);
+  const [shown, setShown] = useState<CoverField[]>(ALL_FIELDS);
+  const [status, setStatus] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const applyLayout = (layout: CoverSheetLayout) => {
+    setTitle(layout.title);
+    setLogoPosition(layout.logoPosition);
+    setLogoMaxHeight(layout.logoMaxHeight);
+    setAlignment(layout.alignment);
+    setOrder([...layout.fields, ...ALL_FIELDS.filter(field => !layout.fields.includes(field))]);
+    setShown(layout.fields);
+  };
+
+  useEffect(() => {
+    window.electron.getCoverLayout().then(applyLayout);
+  }, []);
+
+  const moveField = (position: number, offset: number) => {
+    const moved = [...order];
+    [moved[position], moved[position + offset]] = [moved[position + offset], moved[position]];
+    setOrder(moved);
+    setStatus('');
+  };
+
+  const toggleField = (field: CoverField, show: boolean) => {
+    setShown(show ? [...shown, field] : shown.filter(f => f !== field));
+    setStatus('');
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electron.saveCoverLayout({
+        title,
+        logoPosition,
+        logoMaxHeight,
+        alignment,
+        fields: order.filter(field => shown.includes(field))
+      });
+      if (result.success && result.layout) {
+        applyLayout(result.layout);
+        setStatus('Cover sheet layout saved.');
+      } else {
+        setStatus(`Error: ${result.error || 'Failed to save the cover sheet layout'}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="cover-layout-editor">
+      <p className="settings-help">
+        The cover sheet is the first page of the merged PDF whenever the session has project details
+        (entered under &quot;Cover Sheet&quot; on the main screen). Choose the title, where the logo goes and which
+        details are printed, in order; details left empty in a session are skipped, and an empty date prints
+        today&apos;s date.
+      </p>
+
+      <div className="settings-fields">
+        <label>
+          Title
+          <input
+            className="settings-filter"
+            value={title}
+            placeholder="SUBMITTAL PACKAGE"
+            onChange={e => setTitle(e.target.value)}
+          />
+        </label>
+        <label>
+          Logo position
+          <select
+            value={logoPosition}
+            onChange={e => setLogoPosition(e.target.value as CoverSheetLayout['logoPosition'])}
+          >
+            <option value="left">Top left</option>
+            <option value="center">Top center</option>
+            <option value="right">Top right</option>
+            <option value="hidden">Do not show</option>
+          </select>
+        </label>
+        <label>
+          Largest logo height (points, 72 per inch)
+          <input
+            type="number"
+            min={12}
+            max={300}
+            value={logoMaxHeight}
+            disabled={logoPosition === 'hidden'}
+            onChange={e => setLogoMaxHeight(Number(e.target.value))}
+          />
+        </label>
+        <label>
+          Text alignment
+          <select
+            value={alignment}
+            onChange={e => setAlignment(e.target.value as CoverSheetLayout['alignment'])}
+          >
+            <option value="left">Labels and values in columns</option>
+            <option value="center">Centered, label above value</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="settings-table-wrapper">
+        <table className="settings-table">
+          <thead>
+            <tr>
+              <th>Show</th>
+              <th>Detail</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {order.map((field, position) => (
+              <tr key={field}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={shown.includes(field)}
+                    onChange={e => toggleField(field, e.target.checked)}
+                  />
+                </td>
+                <td>{FIELD_LABELS[field]}</td>
+                <td>
+                  <span className="settings-row-actions">
+                    <button
+                      className="settings-remove-button"
+                      onClick={() => moveField(position, -1)}
+                      disabled={position === 0}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      className="settings-remove-button"
+                      onClick={() => moveField(position, 1)}
+                      disabled={position === order.length - 1}
+                    >
+                      ↓
+                    </button>
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="settings-actions">
+        <button className="settings-button" onClick={save} disabled={isSaving}>
+          Save Cover Sheet Layout
+        </button>
+        {status && <span className="settings-status">{status}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default CoverLayoutEditor;
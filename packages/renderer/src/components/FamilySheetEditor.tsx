@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+
+interface SheetRow {
+  id: string;
+  manufacturer: string;
+  pdfPath: string;
+  patterns: string;
+}
+
+// Patterns are edited as a comma-separated list per sheet
+const toRows = (sheets: FamilySheet[]): SheetRow[] =>
+  sheets.map(sheet => ({ ...sheet, patterns: sheet.patterns.join(', ') }));
+
+const toSheets = (rows: SheetRow[]): FamilySheet[] =>
+  rows.map(row => ({
+    id: row.id,
+    manufacturer: row.manufacturer,
+    pdfPath: row.pdfPath,
+    patterns: row.patterns.split(',').map(pattern => pattern.trim()).filter(Boolean)
+  }));
+
+// Separators are ignored on both sides, wildcards kept
+const compact = (value: string) => value.toLowerCase().replace(/[^a-z0-9*?]/g, '');
+
+// The pattern of a row that covers the sample part number, if any
+const coveringPattern = (patterns: string, partNumber: string): string | undefined => {
+  const part = compact(partNumber);
+  return patterns
+    .split(',')
+    .map(pattern => pattern.trim())
+    .filter(pattern => compact(pattern).replace(/[*?]/g, ''))
+    .find(pattern => {
+      const source = compact(pattern).replace(/\*/g, '.*').replace(/\?/g, '.');
+      return new RegExp(`^${source}$`).test(part);
+    });
+};
+
+const fileNameOf = (pdfPath: string) => pdfPath.split(/[\\/]/).pop() || pdfPath;
+
+const FamilySheetEditor = () => {
+  const [rows, setRows] = useState<SheetRow[]>([]);
+  const [samplePart, setSamplePart] = useState<string>('');
+  const [status, setStatus] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    window.electron.getFamilySheets().then(sheets => setRows(toRows(sheets)));
+  }, []);
+
+  const updateRow = (index: number, changes: Partial<SheetRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setStatus('');
+  };
+
+  const choosePdf = async (index: number) => {
+    const pdfPath = await window.electron.selectFile('.pdf');
+    if (pdfPath) {
+      updateRow(index, { pdfPath });
+    }
+  };
+
+  const addSheet = async () => {
+    const pdfPath = await window.electron.selectFile('.pdf');
+    if (pdfPath) {
+      setRows(prev => [...prev, { id: crypto.randomUUID(), manufacturer: '', pdfPath, patterns: '' }]);
+      setStatus('');
+    }
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electron.saveFamilySheets(toSheets(rows));
+      if (result.success && result.sheets) {
+        setRows(toRows(result.sheets));
+        setStatus('Family sheets saved. Process the BOM again to apply them.');
+      } else {
+        setStatus(`Error: ${result.error || 'Failed to save family sheets'}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const sample = samplePart.trim();
+
+  return (
+    <div className="family-sheet-editor">
+      <p className="settings-help">
+        A family sheet is a library PDF that covers a whole series, such as GV2ME* for GV2ME01 through
+        GV2ME32 or 3RV2011-1*A10 for every amp rating. When no PDF names a part number exactly, the
+        family sheet with the most specific covering pattern is used. Use * for any characters and ? for
+        one character; separators are ignored.
+      </p>
+
+      <label className="settings-tester">
+        Test a part number:
+        <input
+          type="text"
+          value={samplePart}
+          placeholder="e.g. GV2ME10"
+          onChange={e => setSamplePart(e.target.value)}
+        />
+      </label>
+
+      <div className="settings-table-wrapper">
+        <table className="settings-table">
+          <thead>
+            <tr>
+              <th>Manufacturer</th>
+              <th>PDF</th>
+              <th>Covered patterns (comma separated)</th>
+              {sample && <th>&quot;{sample}&quot;</th>}
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={sample ? 5 : 4} className="settings-status">No family sheets declared.</td>
+              </tr>
+            )}
+            {rows.map((row, index) => {
+              const covering = sample ? coveringPattern(row.patterns, sample) : undefined;
+              return (
+                <tr key={row.id}>
+                  <td>
+                    <input
+                      type="text"
+                      value={row.manufacturer}
+                      placeholder="any"
+                      onChange={e => updateRow(index, { manufacturer: e.target.value })}
+                    />
+                  </td>
+                  <td className="settings-path" title={row.pdfPath}>
+                    {fileNameOf(row.pdfPath)}
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={row.patterns}
+                      placeholder="GV2ME*"
+                      onChange={e => updateRow(index, { patterns: e.target.value })}
+                    />
+                  </td>
+                  {sample && (
+                    <td className={covering ? 'settings-accepted' : 'settings-rejected'}>
+                      {covering ? `covered by ${covering}` : 'not covered'}
+                    </td>
+                  )}
+                  <td className="settings-row-actions">
+                    <button className="settings-remove-button" onClick={() => choosePdf(index)}>
+                      Change PDF
+                    </button>
+                    <button
+                      className="settings-remove-button"
+                      onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="settings-actions">
+        <button className="settings-button secondary" onClick={addSheet}>
+          Add Family Sheet
+        </button>
+        <button className="settings-button" onClick={save} disabled={isSaving}>
+          Save Family Sheets
+        </button>
+        {status && <span className="settings-status">{status}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default FamilySheetEditor;
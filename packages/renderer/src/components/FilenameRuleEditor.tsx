@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+
+interface FilenameRuleEditorProps {
+  // Folder searched alongside the library folders when testing a rule
+  pdfDirectory?: string | null;
+}
+
+// Outcome of testing one rule against the library
+interface RuleTestResult {
+  ruleIndex: number;
+  partNumber: string;
+  covered: boolean;
+  files: Array<{ pdfPath: string; fileName: string; root: string }>;
+}
+
+const newRule = (): FilenameRule => ({
+  id: crypto.randomUUID(),
+  manufacturer: '',
+  syntax: 'glob',
+  partPattern: '',
+  filePattern: '',
+  enabled: true
+});
+
+const FilenameRuleEditor = ({ pdfDirectory }: FilenameRuleEditorProps) => {
+  const [rules, setRules] = useState<FilenameRule[]>([]);
+  const [samplePart, setSamplePart] = useState<string>('');
+  const [testResult, setTestResult] = useState<RuleTestResult | null>(null);
+  const [status, setStatus] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    window.electron.getFilenameRules().then(setRules);
+  }, []);
+
+  const updateRule = (index: number, changes: Partial<FilenameRule>) => {
+    setRules(prev => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+    setTestResult(null);
+    setStatus('');
+  };
+
+  const removeRule = (index: number) => {
+    setRules(prev => prev.filter((_, i) => i !== index));
+    setTestResult(null);
+    setStatus('');
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electron.saveFilenameRules(rules);
+      if (result.success && result.rules) {
+        setRules(result.rules);
+        setStatus('Rules saved. Process the BOM again to apply them.');
+      } else {
+        setStatus(`Error: ${result.error || 'Failed to save rules'}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const testRule = async (index: number) => {
+    const partNumber = samplePart.trim();
+    if (!partNumber) {
+      setStatus('Enter a part number to test the rule with.');
+      return;
+    }
+
+    const result = await window.electron.testFilenameRule(rules[index], partNumber, pdfDirectory || '');
+    if (result.success) {
+      setTestResult({ ruleIndex: index, partNumber, covered: Boolean(result.covered), files: result.files || [] });
+      setStatus('');
+    } else {
+      setTestResult(null);
+      setStatus(`Error: ${result.error || 'Failed to test rule'}`);
+    }
+  };
+
+  return (
+    <div className="filename-rule-editor">
+      <p className="settings-help">
+        A rule sends a manufacturer&apos;s part numbers straight to the files that document them, ahead of
+        normal matching. In a glob, each * or ? in the part pattern is captured and can be used in the file
+        pattern as $1, $2, ...; in a regex, use parentheses. For example, Allen-Bradley part pattern
+        1756-L8* with file pattern 1756-td001* sends 1756-L83E to 1756-td001_-en-p.pdf. Rules are tried
+        from top to bottom and the first one that hits a library file wins.
+      </p>
+
+      <label className="settings-tester">
+        Test with part number:
+        <input
+          type="text"
+          value={samplePart}
+          placeholder="e.g. 1756-L83E"
+          onChange={e => {
+            setSamplePart(e.target.value);
+            setTestResult(null);
+          }}
+        />
+      </label>
+
+      <div className="settings-table-wrapper">
+        <table className="settings-table">
+          <thead>
+            <tr>
+              <th>On</th>
+              <th>Manufacturer</th>
+              <th>Syntax</th>
+              <th>Part pattern</th>
+              <th>File pattern</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.length === 0 && (
+              <tr>
+                <td colSpan={6} className="settings-status">No rules; every part number uses normal matching.</td>
+              </tr>
+            )}
+            {rules.map((rule, index) => (
+              <tr key={rule.id}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={e => updateRule(index, { enabled: e.target.checked })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    value={rule.manufacturer}
+                    onChange={e => updateRule(index, { manufacturer: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <select
+                    value={rule.syntax}
+                    onChange={e => updateRule(index, { syntax: e.target.value as RuleSyntax })}
+                  >
+                    <option value="glob">Glob</option>
+                    <option value="regex">Regex</option>
+                  </select>
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    value={rule.partPattern}
+                    placeholder={rule.syntax === 'glob' ? '1756-L8*' : '^1756-L8\\d'}
+                    onChange={e => updateRule(index, { partPattern: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    value={rule.filePattern}
+                    placeholder={rule.syntax === 'glob' ? '1756-td001*' : '^1756-td001'}
+                    onChange={e => updateRule(index, { filePattern: e.target.value })}
+                  />
+                </td>
+                <td className="settings-row-actions">
+                  <button className="settings-remove-button" onClick={() => testRule(index)}>
+                    Test
+                  </button>
+                  <button className="settings-remove-button" onClick={() => removeRule(index)}>
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {testResult && (
+        <div className="rule-test-result">
+          {!testResult.covered ? (
+            <span className="settings-rejected">
+              {testResult.partNumber} is not covered by this rule, so it falls through to normal matching.
+            </span>
+          ) : testResult.files.length === 0 ? (
+            <span className="settings-rejected">
+              The rule covers {testResult.partNumber} but hits no library files.
+            </span>
+          ) : (
+            <>
+              <span className="settings-accepted">
+                {testResult.partNumber} → {testResult.files.length}{' '}
+                {testResult.files.length === 1 ? 'file' : 'files'}
+                {testResult.files.length > 1 && ' (the line will be ambiguous until one is chosen)'}
+              </span>
+              <ul>
+                {testResult.files.map(file => (
+                  <li key={file.pdfPath} className="settings-path" title={file.pdfPath}>
+                    {file.fileName}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="settings-actions">
+        <button className="settings-button secondary" onClick={() => setRules(prev => [...prev, newRule()])}>
+          Add Rule
+        </button>
+        <button className="settings-button" onClick={save} disabled={isSaving}>
+          Save Rules
+        </button>
+        {status && <span className="settings-status">{status}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default FilenameRuleEditor;
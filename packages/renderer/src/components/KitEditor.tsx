@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+
+const fileNameOf = (pdfPath: string) => pdfPath.split(/[\\/]/).pop() || pdfPath;
+
+const newKit = (): KitDefinition => ({
+  id: crypto.randomUUID(),
+  manufacturer: '',
+  partPattern: '',
+  documents: []
+});
+
+const KitEditor = () => {
+  const [kits, setKits] = useState<KitDefinition[]>([]);
+  const [status, setStatus] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    window.electron.getKits().then(setKits);
+  }, []);
+
+  const updateKit = (index: number, changes: Partial<KitDefinition>) => {
+    setKits(prev => prev.map((kit, i) => (i === index ? { ...kit, ...changes } : kit)));
+    setStatus('');
+  };
+
+  const updateDocuments = (index: number, update: (documents: KitDocument[]) => KitDocument[]) => {
+    setKits(prev => prev.map((kit, i) => (i === index ? { ...kit, documents: update(kit.documents) } : kit)));
+    setStatus('');
+  };
+
+  const addDocument = async (index: number) => {
+    const pdfPath = await window.electron.selectFile('.pdf');
+    if (pdfPath) {
+      updateDocuments(index, documents => [...documents, { pdfPath, label: '' }]);
+    }
+  };
+
+  const moveDocument = (index: number, position: number, offset: number) => {
+    updateDocuments(index, documents => {
+      const moved = [...documents];
+      [moved[position], moved[position + offset]] = [moved[position + offset], moved[position]];
+      return moved;
+    });
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electron.saveKits(kits);
+      if (result.success && result.kits) {
+        setKits(result.kits);
+        setStatus('Kits saved. Process the BOM again to apply them.');
+      } else {
+        setStatus(`Error: ${result.error || 'Failed to save kits'}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="kit-editor">
+      <p className="settings-help">
+        A kit is a BOM part that needs several cut sheets, such as a drive package that needs the drive,
+        keypad and EMC filter sheets. Every BOM line whose part number is covered by the kit pattern gets
+        the kit&apos;s documents merged under its table of contents entry, in the order listed. Use * for any
+        characters and ? for one character; separators are ignored. When no PDF names the kit part itself,
+        the first document is used as its cut sheet. Documents can also be added to or removed from a single
+        line in the results table.
+      </p>
+
+      <div className="settings-table-wrapper">
+        <table className="settings-table">
+          <thead>
+            <tr>
+              <th>Manufacturer</th>
+              <th>Part pattern</th>
+              <th>Documents, in merge order</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {kits.length === 0 && (
+              <tr>
+                <td colSpan={4} className="settings-status">No kits defined.</td>
+              </tr>
+            )}
+            {kits.map((kit, index) => (
+              <tr key={kit.id}>
+                <td>
+                  <input
+                    type="text"
+                    value={kit.manufacturer}
+                    placeholder="any"
+                    onChange={e => updateKit(index, { manufacturer: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    value={kit.partPattern}
+                    placeholder="ACS580-01-*"
+                    onChange={e => updateKit(index, { partPattern: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <ol className="kit-documents">
+                    {kit.documents.map((document, position) => (
+                      <li key={`${document.pdfPath}-${position}`}>
+                        <input
+                          type="text"
+                          value={document.label}
+                          placeholder="Label"
+                          onChange={e =>
+                            updateDocuments(index, documents =>
+                              documents.map((d, i) => (i === position ? { ...d, label: e.target.value } : d))
+                            )
+                          }
+                        />
+                        <span className="settings-path" title={document.pdfPath}>{fileNameOf(document.pdfPath)}</span>
+                        <span className="settings-row-actions">
+                          <button
+                            className="settings-remove-button"
+                            onClick={() => moveDocument(index, position, -1)}
+                            disabled={position === 0}
+                          >
+                            ↑
+                          </button>
+                          <button
+                            className="settings-remove-button"
+                            onClick={() => moveDocument(index, position, 1)}
+                            disabled={position === kit.documents.length - 1}
+                          >
+                            ↓
+                          </button>
+                          <button
+                            className="settings-remove-button"
+                            onClick={() => updateDocuments(index, documents => documents.filter((_, i) => i !== position))}
+                          >
+                            Remove
+                          </button>
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                  <button className="settings-remove-button" onClick={() => addDocument(index)}>
+                    Add PDF
+                  </button>
+                </td>
+                <td>
+                  <button
+                    className="settings-remove-button"
+                    onClick={() => setKits(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    Remove Kit
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="settings-actions">
+        <button className="settings-button secondary" onClick={() => setKits(prev => [...prev, newKit()])}>
+          Add Kit
+        </button>
+        <button className="settings-button" onClick={save} disabled={isSaving}>
+          Save Kits
+        </button>
+        {status && <span className="settings-status">{status}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default KitEditor;
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+
+// Learned date as a short local date, e.g. "3/14/2025"
+const formatLearnedAt = (learnedAt: string) => new Date(learnedAt).toLocaleDateString();
+
+const LearnedMatchEditor = () => {
+  const [matches, setMatches] = useState<LearnedMatch[]>([]);
+  const [filter, setFilter] = useState<string>('');
+  const [status, setStatus] = useState<string>('');
+
+  useEffect(() => {
+    window.electron.getLearnedMatches().then(setMatches);
+  }, []);
+
+  const remove = async (match: LearnedMatch) => {
+    const removed = await window.electron.deleteLearnedMatch(match.key);
+    setMatches(prev => prev.filter(m => m.key !== match.key));
+    setStatus(removed ? `Forgot ${match.manufacturer} ${match.partNumber}.` : 'That match was already removed.');
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visible = query
+    ? matches.filter(match =>
+        [match.manufacturer, match.partNumber, match.fileName].some(value => value.toLowerCase().includes(query))
+      )
+    : matches;
+
+  return (
+    <div className="learned-match-editor">
+      <p className="settings-help">
+        When you override a match or pick an alternative, the chosen PDF is remembered for that
+        manufacturer and part number and used first in later jobs. Clearing an override also forgets it.
+      </p>
+
+      <div className="settings-fields">
+        <label>
+          Filter
+          <input
+            className="settings-filter"
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder="Manufacturer, part number or file"
+          />
+        </label>
+      </div>
+
+      <div className="settings-table-wrapper">
+        <table className="settings-table">
+          <thead>
+            <tr>
+              <th>Manufacturer</th>
+              <th>Part Number</th>
+              <th>PDF</th>
+              <th>Learned</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={5} className="settings-status">
+                  {matches.length === 0 ? 'No learned matches yet.' : 'No learned matches match the filter.'}
+                </td>
+              </tr>
+            )}
+            {visible.map(match => (
+              <tr key={match.key}>
+                <td>{match.manufacturer}</td>
+                <td>{match.partNumber}</td>
+                <td className="settings-path" title={match.pdfPath}>{match.fileName}</td>
+                <td>{formatLearnedAt(match.learnedAt)}</td>
+                <td>
+                  <button className="settings-remove-button" onClick={() => remove(match)}>
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {status && (
+        <div className="settings-actions">
+          <span className="settings-status">{status}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LearnedMatchEditor;
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+
+interface LibrarySettingsEditorProps {
+  // Called after saving so the PDF list can be rescanned
+  onSaved?: (settings: LibrarySettings) => void;
+}
+
+const LibrarySettingsEditor = ({ onSaved }: LibrarySettingsEditorProps) => {
+  const [roots, setRoots] = useState<string[]>([]);
+  const [maxDepth, setMaxDepth] = useState<number>(8);
+  const [ignorePatterns, setIgnorePatterns] = useState<string>('');
+  const [contentMatching, setContentMatching] = useState<boolean>(false);
+  const [contentPages, setContentPages] = useState<number>(2);
+  const [staleAfterYears, setStaleAfterYears] = useState<number>(5);
+  const [status, setStatus] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const applySettings = (settings: LibrarySettings) => {
+    setRoots(settings.roots);
+    setMaxDepth(settings.maxDepth);
+    setIgnorePatterns(settings.ignorePatterns.join('\n'));
+    setContentMatching(settings.contentMatching);
+    setContentPages(settings.contentPages);
+    setStaleAfterYears(settings.staleAfterYears);
+  };
+
+  useEffect(() => {
+    window.electron.getLibrarySettings().then(applySettings);
+  }, []);
+
+  const addRoot = async () => {
+    const folder = await window.electron.selectFolder();
+    if (folder && !roots.includes(folder)) {
+      setRoots([...roots, folder]);
+      setStatus('');
+    }
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await window.electron.saveLibrarySettings({
+        roots,
+        maxDepth,
+        ignorePatterns: ignorePatterns.split('\n'),
+        contentMatching,
+        contentPages,
+        staleAfterYears
+      });
+      applySettings(saved);
+      setStatus('Library settings saved.');
+      onSaved?.(saved);
+    } catch (error) {
+      setStatus(`Error: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="library-settings-editor">
+      <p className="settings-help">
+        PDFs are searched in the session&apos;s PDF directory and in every library folder below,
+        including their subfolders (for example Library/Manufacturer/Series/*.pdf).
+      </p>
+
+      <div className="settings-table-wrapper">
+        <table className="settings-table">
+          <thead>
+            <tr>
+              <th>Library folder</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {roots.length === 0 && (
+              <tr>
+                <td colSpan={2} className="settings-status">No library folders; only the PDF directory is searched.</td>
+              </tr>
+            )}
+            {roots.map(root => (
+              <tr key={root}>
+                <td className="settings-path">{root}</td>
+                <td>
+                  <button
+                    className="settings-remove-button"
+                    onClick={() => setRoots(roots.filter(r => r !== root))}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="settings-fields">
+        <label>
+          Subfolder depth
+          <input
+            type="number"
+            min={0}
+            value={maxDepth}
+            onChange={e => setMaxDepth(Number(e.target.value))}
+          />
+        </label>
+        <label>
+          Ignore patterns (one glob per line, e.g. Archive or **/old/*.pdf)
+          <textarea
+            rows={4}
+            value={ignorePatterns}
+            onChange={e => setIgnorePatterns(e.target.value)}
+          />
+        </label>
+        <label className="settings-checkbox">
+          <input
+            type="checkbox"
+            checked={contentMatching}
+            onChange={e => setContentMatching(e.target.checked)}
+          />
+          Match part numbers in PDF metadata and page text (for files named like datasheet(3).pdf)
+        </label>
+        <label>
+          Pages of text to index per PDF
+          <input
+            type="number"
+            min={1}
+            value={contentPages}
+            disabled={!contentMatching}
+            onChange={e => setContentPages(Number(e.target.value))}
+          />
+        </label>
+        <label>
+          Flag sheets dated more than this many years ago as possibly stale (0 to never flag)
+          <input
+            type="number"
+            min={0}
+            value={staleAfterYears}
+            onChange={e => setStaleAfterYears(Number(e.target.value))}
+          />
+        </label>
+      </div>
+
+      <div className="settings-actions">
+        <button className="settings-button secondary" onClick={addRoot}>
+          Add Library Folder
+        </button>
+        <button className="settings-button" onClick={save} disabled={isSaving}>
+          Save Library Settings
+        </button>
+        {status && <span className="settings-status">{status}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default LibrarySettingsEditor;
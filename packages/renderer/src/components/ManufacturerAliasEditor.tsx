@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+
+interface AliasRow {
+  name: string;
+  aliases: string;
+}
+
+// Aliases are edited as a comma-separated list per manufacturer
+const toRows = (table: ManufacturerAliasTable): AliasRow[] =>
+  Object.entries(table).map(([name, aliases]) => ({ name, aliases: aliases.join(', ') }));
+
+const toTable = (rows: AliasRow[]): ManufacturerAliasTable => {
+  const table: ManufacturerAliasTable = {};
+  rows.forEach(row => {
+    if (row.name.trim()) {
+      table[row.name.trim()] = row.aliases.split(',').map(alias => alias.trim()).filter(Boolean);
+    }
+  });
+  return table;
+};
+
+const ManufacturerAliasEditor = () => {
+  const [rows, setRows] = useState<AliasRow[]>([]);
+  const [status, setStatus] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    window.electron.getManufacturerAliases().then(table => setRows(toRows(table)));
+  }, []);
+
+  const updateRow = (index: number, changes: Partial<AliasRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setStatus('');
+  };
+
+  const addRow = () => {
+    setRows(prev => [...prev, { name: '', aliases: '' }]);
+  };
+
+  const removeRow = (index: number) => {
+    setRows(prev => prev.filter((_, i) => i !== index));
+    setStatus('');
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electron.saveManufacturerAliases(toTable(rows));
+      if (result.success && result.aliases) {
+        setRows(toRows(result.aliases));
+        setStatus('Aliases saved. Process the BOM again to apply them.');
+      } else {
+        setStatus(`Error: ${result.error || 'Failed to save aliases'}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reset = async () => {
+    const table = await window.electron.resetManufacturerAliases();
+    setRows(toRows(table));
+    setStatus('Default aliases restored.');
+  };
+
+  return (
+    <div className="manufacturer-alias-editor">
+      <p className="settings-help">
+        A PDF matches a BOM line when its filename contains the manufacturer or any of its aliases.
+        Aliases of three characters or fewer must appear as a separate word in the filename.
+      </p>
+
+      <div className="settings-table-wrapper">
+        <table className="settings-table">
+          <thead>
+            <tr>
+              <th>Manufacturer</th>
+              <th>Aliases (comma separated)</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index}>
+                <td>
+                  <input
+                    type="text"
+                    value={row.name}
+                    onChange={e => updateRow(index, { name: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    value={row.aliases}
+                    onChange={e => updateRow(index, { aliases: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <button className="settings-remove-button" onClick={() => removeRow(index)}>
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="settings-actions">
+        <button className="settings-button secondary" onClick={addRow}>
+          Add Manufacturer
+        </button>
+        <button className="settings-button" onClick={save} disabled={isSaving}>
+          Save Aliases
+        </button>
+        <button className="settings-button secondary" onClick={reset} disabled={isSaving}>
+          Restore Defaults
+        </button>
+        {status && <span className="settings-status">{status}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default ManufacturerAliasEditor;
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+
+// Whether a pattern matches the sample part number; null when the pattern does not compile
+const matchesPart = (pattern: string, partNumber: string): boolean | null => {
+  if (!pattern) {
+    return false;
+  }
+  try {
+    return new RegExp(pattern, 'i').test(partNumber);
+  } catch {
+    return null;
+  }
+};
+
+const ManufacturerPatternEditor = () => {
+  const [rows, setRows] = useState<ManufacturerPattern[]>([]);
+  const [samplePart, setSamplePart] = useState<string>('');
+  const [status, setStatus] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    window.electron.getManufacturerPatterns().then(setRows);
+  }, []);
+
+  const updateRow = (index: number, changes: Partial<ManufacturerPattern>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setStatus('');
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electron.saveManufacturerPatterns(rows);
+      if (result.success && result.patterns) {
+        setRows(result.patterns);
+        setStatus('Patterns saved. Process the BOM again to apply them.');
+      } else {
+        setStatus(`Error: ${result.error || 'Failed to save patterns'}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reset = async () => {
+    setRows(await window.electron.resetManufacturerPatterns());
+    setStatus('Default patterns restored.');
+  };
+
+  const sample = samplePart.trim();
+  // Patterns are tried in order, so only the first matching row infers the manufacturer
+  const firstMatch = sample ? rows.findIndex(row => row.manufacturer && matchesPart(row.pattern, sample)) : -1;
+
+  return (
+    <div className="manufacturer-pattern-editor">
+      <p className="settings-help">
+        When a BOM row has a part number but no manufacturer, the manufacturer is inferred from the
+        first pattern (a regular expression, ignoring case) that matches the part number, e.g. ^1492-
+        for Allen-Bradley terminal blocks. Inferred manufacturers are marked in the results table until
+        they are confirmed. Rows no pattern matches are reported as missing a manufacturer.
+      </p>
+
+      <label className="settings-tester">
+        Test a part number:
+        <input
+          type="text"
+          value={samplePart}
+          placeholder="e.g. 1492-J3"
+          onChange={e => setSamplePart(e.target.value)}
+        />
+      </label>
+
+      <div className="settings-table-wrapper">
+        <table className="settings-table">
+          <thead>
+            <tr>
+              <th>Part number pattern</th>
+              <th>Manufacturer</th>
+              {sample && <th>&quot;{sample}&quot;</th>}
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={sample ? 4 : 3} className="settings-status">
+                  No patterns; rows without a manufacturer are rejected.
+                </td>
+              </tr>
+            )}
+            {rows.map((row, index) => {
+              const matches = sample ? matchesPart(row.pattern, sample) : undefined;
+              return (
+                <tr key={index}>
+                  <td>
+                    <input
+                      type="text"
+                      value={row.pattern}
+                      placeholder="^1492-"
+                      onChange={e => updateRow(index, { pattern: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={row.manufacturer}
+                      placeholder="Allen-Bradley"
+                      onChange={e => updateRow(index, { manufacturer: e.target.value })}
+                    />
+                  </td>
+                  {sample && (
+                    <td className={index === firstMatch ? 'settings-accepted' : 'settings-rejected'}>
+                      {matches === null
+                        ? 'invalid pattern'
+                        : index === firstMatch
+                          ? 'inferred'
+                          : matches ? 'matches, but an earlier row wins' : 'no match'}
+                    </td>
+                  )}
+                  <td>
+                    <button
+                      className="settings-remove-button"
+                      onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="settings-actions">
+        <button
+          className="settings-button secondary"
+          onClick={() => setRows(prev => [...prev, { pattern: '', manufacturer: '' }])}
+        >
+          Add Pattern
+        </button>
+        <button className="settings-button" onClick={save} disabled={isSaving}>
+          Save Patterns
+        </button>
+        <button className="settings-button secondary" onClick={reset} disabled={isSaving}>
+          Restore Defaults
+        </button>
+        {status && <span className="settings-status">{status}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default ManufacturerPatternEditor;
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+
+const PageStampEditor = () => {
+  const [enabled, setEnabled] = useState<boolean>(false);
+  const [position, setPosition] = useState<PageStampSettings['position']>('bottom-right');
+  const [fontSize, setFontSize] = useState<number>(8);
+  const [backing, setBacking] = useState<boolean>(true);
+  const [status, setStatus] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const applySettings = (settings: PageStampSettings) => {
+    setEnabled(settings.enabled);
+    setPosition(settings.position);
+    setFontSize(settings.fontSize);
+    setBacking(settings.backing);
+  };
+
+  useEffect(() => {
+    window.electron.getPageStampSettings().then(applySettings);
+  }, []);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electron.savePageStampSettings({ enabled, position, fontSize, backing });
+      if (result.success && result.settings) {
+        applySettings(result.settings);
+        setStatus('Page stamp settings saved.');
+      } else {
+        setStatus(`Error: ${result.error || 'Failed to save the page stamp settings'}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="page-stamp-editor">
+      <p className="settings-help">
+        The stamp is one line of text on every page of the merged PDF: the project name and submittal number
+        from the session, the item number, tags and part number on each item&apos;s pages, and &quot;Page X of
+        Y&quot; for the whole package. A long stamp is shrunk to fit the page.
+      </p>
+
+      <div className="settings-fields">
+        <label className="settings-checkbox">
+          <input type="checkbox" checked={enabled} onChange={e => setEnabled(e.target.checked)} />
+          Stamp every page of the merged PDF
+        </label>
+        <label>
+          Position
+          <select
+            value={position}
+            disabled={!enabled}
+            onChange={e => setPosition(e.target.value as PageStampSettings['position'])}
+          >
+            <option value="top-left">Top left</option>
+            <option value="top-center">Top center</option>
+            <option value="top-right">Top right</option>
+            <option value="bottom-left">Bottom left</option>
+            <option value="bottom-center">Bottom center</option>
+            <option value="bottom-right">Bottom right</option>
+          </select>
+        </label>
+        <label>
+          Font size (points)
+          <input
+            type="number"
+            min={5}
+            max={24}
+            value={fontSize}
+            disabled={!enabled}
+            onChange={e => setFontSize(Number(e.target.value))}
+          />
+        </label>
+        <label className="settings-checkbox">
+          <input
+            type="checkbox"
+            checked={backing}
+            disabled={!enabled}
+            onChange={e => setBacking(e.target.checked)}
+          />
+          Draw a white box behind the stamp so it stays legible over vendor artwork
+        </label>
+      </div>
+
+      <div className="settings-actions">
+        <button className="settings-button" onClick={save} disabled={isSaving}>
+          Save Page Stamp
+        </button>
+        {status && <span className="settings-status">{status}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default PageStampEditor;
@@ -0,0 +1,73 @@
+import './ProjectMetadataForm.css';
+
+interface ProjectMetadataFormProps {
+  metadata: ProjectMetadata;
+  onChange: (metadata: ProjectMetadata) => void;
+  disabled?: boolean;
+}
+
+const FIELDS: Array<{ field: CoverField; label: string; placeholder?: string }> = [
+  { field: 'projectName', label: 'Project name' },
+  { field: 'projectNumber', label: 'Project number' },
+  { field: 'customer', label: 'Customer' },
+  { field: 'engineerOfRecord', label: 'Engineer of record' },
+  { field: 'contractor', label: 'Contractor' },
+  { field: 'submittalNumber', label: 'Submittal number' },
+  { field: 'revision', label: 'Revision', placeholder: '0' },
+  { field: 'date', label: 'Date', placeholder: 'Today' }
+];
+
+const ProjectMetadataForm = ({ metadata, onChange, disabled }: ProjectMetadataFormProps) => {
+  const selectLogo = async () => {
+    const logoPath = await window.electron.selectFile('.png,.jpg,.jpeg');
+    if (logoPath) {
+      onChange({ ...metadata, logoPath });
+    }
+  };
+
+  return (
+    <div className="project-metadata-form">
+      <div className="project-metadata-fields">
+        {FIELDS.map(({ field, label, placeholder }) => (
+          <label key={field}>
+            {label}
+            <input
+              type="text"
+              value={metadata[field]}
+              placeholder={placeholder}
+              onChange={e => onChange({ ...metadata, [field]: e.target.value })}
+              disabled={disabled}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="project-logo">
+        <button className="file-select-button" onClick={selectLogo} disabled={disabled}>
+          {metadata.logoPath ? 'Change Logo' : 'Select Logo (PNG/JPG)'}
+        </button>
+        {metadata.logoPath && (
+          <>
+            <span className="project-logo-path" title={metadata.logoPath}>
+              {metadata.logoPath.split(/[\\/]/).pop()}
+            </span>
+            <button
+              className="project-logo-remove"
+              onClick={() => onChange({ ...metadata, logoPath: undefined })}
+              disabled={disabled}
+            >
+              Remove
+            </button>
+          </>
+        )}
+      </div>
+
+      <p className="project-metadata-help">
+        A cover sheet with these details is added before the table of contents once any of them is filled in.
+        Its layout is set under Settings → Cover Sheet.
+      </p>
+    </div>
+  );
+};
+
+export default ProjectMetadataForm;
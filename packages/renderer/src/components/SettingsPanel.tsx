@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import ManufacturerAliasEditor from './ManufacturerAliasEditor';
+import VariantSuffixEditor from './VariantSuffixEditor';
+import LibrarySettingsEditor from './LibrarySettingsEditor';
+import LearnedMatchEditor from './LearnedMatchEditor';
+import FilenameRuleEditor from './FilenameRuleEditor';
+import FamilySheetEditor from './FamilySheetEditor';
+import ManufacturerPatternEditor from './ManufacturerPatternEditor';
+import SupersessionEditor from './SupersessionEditor';
+import KitEditor from './KitEditor';
+import CoverLayoutEditor from './CoverLayoutEditor';
+import PageStampEditor from './PageStampEditor';
+import './SettingsPanel.css';
+
+type SettingsTab = 'library' | 'aliases' | 'patterns' | 'suffixes' | 'rules' | 'families' | 'superseded' | 'kits' | 'cover' | 'stamp' | 'learned';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+  onLibraryChanged?: (settings: LibrarySettings) => void;
+  // Session PDF directory, searched with the library folders when testing filename rules
+  pdfDirectory?: string | null;
+}
+
+const TABS: Array<{ id: SettingsTab; label: string }> = [
+  { id: 'library', label: 'Library Folders' },
+  { id: 'aliases', label: 'Manufacturer Aliases' },
+  { id: 'patterns', label: 'Manufacturer Patterns' },
+  { id: 'suffixes', label: 'Variant Suffixes' },
+  { id: 'rules', label: 'Filename Rules' },
+  { id: 'families', label: 'Family Sheets' },
+  { id: 'superseded', label: 'Superseded Parts' },
+  { id: 'kits', label: 'Kits' },
+  { id: 'cover', label: 'Cover Sheet' },
+  { id: 'stamp', label: 'Page Stamp' },
+  { id: 'learned', label: 'Learned Matches' }
+];
+
+const SettingsPanel = ({ onClose, onLibraryChanged, pdfDirectory }: SettingsPanelProps) => {
+  const [activeTab, setActiveTab] = useState<SettingsTab>('library');
+
+  return (
+    <div className="settings-panel">
+      <div className="settings-header">
+        <h2>Matching Settings</h2>
+        <button className="close-button" onClick={onClose} title="Close settings">
+          ×
+        </button>
+      </div>
+
+      <div className="settings-tabs">
+        {TABS.map(tab => (
+          <button
+            key={tab.id}
+            className={`settings-tab ${activeTab === tab.id ? 'active' : ''}`}
+            onClick={() => setActiveTab(tab.id)}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="settings-content">
+        {activeTab === 'library' && <LibrarySettingsEditor onSaved={onLibraryChanged} />}
+        {activeTab === 'aliases' && <ManufacturerAliasEditor />}
+        {activeTab === 'patterns' && <ManufacturerPatternEditor />}
+        {activeTab === 'suffixes' && <VariantSuffixEditor />}
+        {activeTab === 'rules' && <FilenameRuleEditor pdfDirectory={pdfDirectory} />}
+        {activeTab === 'families' && <FamilySheetEditor />}
+        {activeTab === 'superseded' && <SupersessionEditor />}
+        {activeTab === 'kits' && <KitEditor />}
+        {activeTab === 'cover' && <CoverLayoutEditor />}
+        {activeTab === 'stamp' && <PageStampEditor />}
+        {activeTab === 'learned' && <LearnedMatchEditor />}
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
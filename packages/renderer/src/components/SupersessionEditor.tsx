@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+
+// Rows carry a local key so they can be edited while the table is filtered
+interface SupersessionRow extends Supersession {
+  key: string;
+}
+
+const toRows = (table: Supersession[]): SupersessionRow[] =>
+  table.map(row => ({ ...row, key: crypto.randomUUID() }));
+
+const toTable = (rows: SupersessionRow[]): Supersession[] =>
+  rows.map(({ key: _key, ...row }) => row);
+
+const newRow = (): SupersessionRow => ({
+  key: crypto.randomUUID(),
+  manufacturer: '',
+  partNumber: '',
+  replacementManufacturer: '',
+  replacementPartNumber: ''
+});
+
+const SupersessionEditor = () => {
+  const [rows, setRows] = useState<SupersessionRow[]>([]);
+  const [filter, setFilter] = useState<string>('');
+  const [status, setStatus] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    window.electron.getSupersessions().then(table => setRows(toRows(table)));
+  }, []);
+
+  const updateRow = (key: string, changes: Partial<Supersession>) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, ...changes } : row)));
+    setStatus('');
+  };
+
+  const addRow = () => {
+    setRows(prev => [...prev, newRow()]);
+    setFilter('');
+    setStatus('');
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electron.saveSupersessions(toTable(rows));
+      if (result.success && result.supersessions) {
+        setRows(toRows(result.supersessions));
+        setStatus('Superseded parts saved. Process the BOM again to apply them.');
+      } else {
+        setStatus(`Error: ${result.error || 'Failed to save superseded parts'}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const importCsv = async () => {
+    const filePath = await window.electron.selectFile('.csv');
+    if (!filePath) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await window.electron.importSupersessions(filePath);
+      if (result.success && result.supersessions) {
+        setRows(toRows(result.supersessions));
+        const skipped = result.skippedLines || [];
+        setStatus(
+          `Imported ${result.imported} superseded ${result.imported === 1 ? 'part' : 'parts'}.` +
+          (skipped.length > 0 ? ` Skipped incomplete ${skipped.length === 1 ? 'line' : 'lines'} ${skipped.join(', ')}.` : '')
+        );
+      } else {
+        setStatus(`Error: ${result.error || 'Failed to import superseded parts'}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visible = query
+    ? rows.filter(row =>
+        [row.manufacturer, row.partNumber, row.replacementManufacturer, row.replacementPartNumber]
+          .some(value => value.toLowerCase().includes(query))
+      )
+    : rows;
+
+  return (
+    <div className="supersession-editor">
+      <p className="settings-help">
+        When a BOM part has no match of its own, its replacement from this table is matched instead and
+        the result notes &quot;supersedes&quot; the original part, in the results table and in the table of
+        contents. Leave the replacement manufacturer empty when it is the same. A CSV file can be imported
+        with columns Manufacturer, Part Number, Replacement Manufacturer and Replacement Part Number (or
+        three columns: manufacturer, old part, new part); imported rows replace existing rows for the same part.
+      </p>
+
+      <div className="settings-fields">
+        <label>
+          Filter
+          <input
+            className="settings-filter"
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder="Manufacturer or part number"
+          />
+        </label>
+      </div>
+
+      <div className="settings-table-wrapper">
+        <table className="settings-table">
+          <thead>
+            <tr>
+              <th>Manufacturer</th>
+              <th>Discontinued part</th>
+              <th>Replacement manufacturer</th>
+              <th>Replacement part</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={5} className="settings-status">
+                  {rows.length === 0 ? 'No superseded parts.' : 'No superseded parts match the filter.'}
+                </td>
+              </tr>
+            )}
+            {visible.map(row => (
+              <tr key={row.key}>
+                <td>
+                  <input
+                    type="text"
+                    value={row.manufacturer}
+                    placeholder="Square D"
+                    onChange={e => updateRow(row.key, { manufacturer: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    value={row.partNumber}
+                    onChange={e => updateRow(row.key, { partNumber: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    value={row.replacementManufacturer}
+                    placeholder="same"
+                    onChange={e => updateRow(row.key, { replacementManufacturer: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    value={row.replacementPartNumber}
+                    onChange={e => updateRow(row.key, { replacementPartNumber: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <button
+                    className="settings-remove-button"
+                    onClick={() => setRows(prev => prev.filter(r => r.key !== row.key))}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="settings-actions">
+        <button className="settings-button secondary" onClick={addRow}>
+          Add Part
+        </button>
+        <button className="settings-button secondary" onClick={importCsv} disabled={isSaving}>
+          Import CSV
+        </button>
+        <button className="settings-button" onClick={save} disabled={isSaving}>
+          Save Superseded Parts
+        </button>
+        {status && <span className="settings-status">{status}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default SupersessionEditor;
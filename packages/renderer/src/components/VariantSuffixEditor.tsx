@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+
+interface SuffixRow {
+  manufacturer: string;
+  pattern: string;
+}
+
+// Key of the pattern used for manufacturers without their own row
+const DEFAULT_KEY = '*';
+
+const toRows = (table: VariantSuffixTable): SuffixRow[] =>
+  Object.entries(table).map(([manufacturer, pattern]) => ({ manufacturer, pattern }));
+
+const toTable = (rows: SuffixRow[]): VariantSuffixTable => {
+  const table: VariantSuffixTable = {};
+  rows.forEach(row => {
+    if (row.manufacturer.trim()) {
+      table[row.manufacturer.trim()] = row.pattern.trim();
+    }
+  });
+  return table;
+};
+
+// Whether a pattern accepts the sample suffix; null when the pattern does not compile
+const acceptsSuffix = (pattern: string, suffix: string): boolean | null => {
+  if (!pattern) {
+    return false;
+  }
+  try {
+    return new RegExp(pattern, 'i').test(suffix);
+  } catch {
+    return null;
+  }
+};
+
+const VariantSuffixEditor = () => {
+  const [rows, setRows] = useState<SuffixRow[]>([]);
+  const [sampleSuffix, setSampleSuffix] = useState<string>('');
+  const [status, setStatus] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    window.electron.getVariantSuffixes().then(table => setRows(toRows(table)));
+  }, []);
+
+  const updateRow = (index: number, changes: Partial<SuffixRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setStatus('');
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electron.saveVariantSuffixes(toTable(rows));
+      if (result.success && result.suffixes) {
+        setRows(toRows(result.suffixes));
+        setStatus('Suffix patterns saved. Process the BOM again to apply them.');
+      } else {
+        setStatus(`Error: ${result.error || 'Failed to save suffix patterns'}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reset = async () => {
+    const table = await window.electron.resetVariantSuffixes();
+    setRows(toRows(table));
+    setStatus('Default suffix patterns restored.');
+  };
+
+  const sample = sampleSuffix.replace(/[^a-z0-9]/gi, '').toLowerCase();
+
+  return (
+    <div className="variant-suffix-editor">
+      <p className="settings-help">
+        A part number must be followed by a separator, the end of the filename, or a variant suffix
+        accepted by the manufacturer&apos;s pattern (a regular expression tested against the extra characters).
+        With the default patterns, LC1D09 matches LC1D09BD.pdf but not LC1D093.pdf.
+        Leave a pattern empty to allow no variant suffix. The {DEFAULT_KEY} row applies to every other manufacturer.
+      </p>
+
+      <label className="settings-tester">
+        Test a suffix:
+        <input
+          type="text"
+          value={sampleSuffix}
+          placeholder="e.g. BD"
+          onChange={e => setSampleSuffix(e.target.value)}
+        />
+      </label>
+
+      <div className="settings-table-wrapper">
+        <table className="settings-table">
+          <thead>
+            <tr>
+              <th>Manufacturer</th>
+              <th>Variant suffix pattern</th>
+              {sample && <th>&quot;{sample}&quot;</th>}
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => {
+              const accepted = sample ? acceptsSuffix(row.pattern, sample) : undefined;
+              return (
+                <tr key={index}>
+                  <td>
+                    <input
+                      type="text"
+                      value={row.manufacturer}
+                      disabled={row.manufacturer === DEFAULT_KEY}
+                      onChange={e => updateRow(index, { manufacturer: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={row.pattern}
+                      placeholder="no variant suffix"
+                      onChange={e => updateRow(index, { pattern: e.target.value })}
+                    />
+                  </td>
+                  {sample && (
+                    <td className={accepted ? 'settings-accepted' : 'settings-rejected'}>
+                      {accepted === null ? 'invalid pattern' : accepted ? 'variant' : 'different part'}
+                    </td>
+                  )}
+                  <td>
+                    {row.manufacturer !== DEFAULT_KEY && (
+                      <button
+                        className="settings-remove-button"
+                        onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="settings-actions">
+        <button
+          className="settings-button secondary"
+          onClick={() => setRows(prev => [...prev, { manufacturer: '', pattern: '' }])}
+        >
+          Add Manufacturer
+        </button>
+        <button className="settings-button" onClick={save} disabled={isSaving}>
+          Save Patterns
+        </button>
+        <button className="settings-button secondary" onClick={reset} disabled={isSaving}>
+          Restore Defaults
+        </button>
+        {status && <span className="settings-status">{status}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default VariantSuffixEditor;
@@ -0,0 +1,92 @@
+import './WorkbookSheetPicker.css';
+
+interface WorkbookSheetPickerProps {
+  sheets: WorkbookSheetInfo[];
+  sheetName: string | null;
+  headerRowIndex: number;
+  onSheetChange: (sheetName: string) => void;
+  onHeaderRowChange: (headerRowIndex: number) => void;
+  disabled?: boolean;
+}
+
+const WorkbookSheetPicker = ({
+  sheets,
+  sheetName,
+  headerRowIndex,
+  onSheetChange,
+  onHeaderRowChange,
+  disabled
+}: WorkbookSheetPickerProps) => {
+  const selectedSheet = sheets.find(sheet => sheet.name === sheetName) || sheets[0];
+
+  if (!selectedSheet) {
+    return null;
+  }
+
+  // Widest preview row decides how many columns to show
+  const columnCount = Math.max(0, ...selectedSheet.preview.map(row => row.length));
+
+  return (
+    <div className="workbook-sheet-picker">
+      <div className="sheet-picker-controls">
+        <label>
+          Worksheet
+          <select
+            value={selectedSheet.name}
+            onChange={e => onSheetChange(e.target.value)}
+            disabled={disabled}
+          >
+            {sheets.map(sheet => (
+              <option key={sheet.name} value={sheet.name}>
+                {sheet.name} ({sheet.rowCount} rows)
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Header row
+          <input
+            type="number"
+            min={1}
+            max={Math.max(1, selectedSheet.rowCount)}
+            value={headerRowIndex + 1}
+            onChange={e => onHeaderRowChange(Math.max(0, Number(e.target.value) - 1))}
+            disabled={disabled}
+          />
+        </label>
+      </div>
+
+      {selectedSheet.preview.length > 0 ? (
+        <div className="sheet-preview">
+          <p className="sheet-preview-help">Click a row to use it as the header row</p>
+          <table>
+            <tbody>
+              {selectedSheet.preview.map((row, rowIndex) => (
+                <tr
+                  key={rowIndex}
+                  className={
+                    rowIndex === headerRowIndex
+                      ? 'header-row'
+                      : rowIndex < headerRowIndex
+                        ? 'skipped-row'
+                        : ''
+                  }
+                  onClick={() => !disabled && onHeaderRowChange(rowIndex)}
+                >
+                  <th>{rowIndex + 1}</th>
+                  {Array.from({ length: columnCount }, (_, cellIndex) => (
+                    <td key={cellIndex}>{row[cellIndex] || ''}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="sheet-preview-help">This worksheet is empty</p>
+      )}
+    </div>
+  );
+};
+
+export default WorkbookSheetPicker;
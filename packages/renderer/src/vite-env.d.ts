@@ -1,23 +1,263 @@
 /// <reference types="vite/client" />
 
+// Worksheet summary returned when a BOM workbook is selected
+interface WorkbookSheetInfo {
+    name: string;
+    rowCount: number;
+    preview: string[][];
+}
+
+// Which BOM column holds each field
+interface ColumnMapping {
+    manufacturer?: string;
+    partNumber?: string;
+    quantity?: string;
+    description?: string;
+    tag?: string;
+    // Column the merged package is grouped by
+    section?: string;
+}
+
+// How a BOM file was read: encoding and delimiter (CSV) and header row
+interface BomDetection {
+    encoding?: string;
+    delimiter?: string;
+    headerRowIndex: number;
+}
+
+// Detected headers and first rows of a BOM file
+interface BomPreview {
+    headers: string[];
+    rows: string[][];
+    totalRows: number;
+    detected: BomDetection;
+}
+
+// A saved column mapping
+interface MappingProfile {
+    name: string;
+    mapping: ColumnMapping;
+    headers: string[];
+    updatedAt: string;
+}
+
+// Canonical manufacturer name → other names it appears under
+type ManufacturerAliasTable = Record<string, string[]>;
+
+// Canonical manufacturer → pattern for characters allowed directly after a part number
+type VariantSuffixTable = Record<string, string>;
+
+// Part number pattern that identifies a manufacturer, e.g. ^1492- → Allen-Bradley
+interface ManufacturerPattern {
+    pattern: string;
+    manufacturer: string;
+}
+
+// Cut sheet library folders searched in addition to the session's PDF directory
+interface LibrarySettings {
+    roots: string[];
+    maxDepth: number;
+    ignorePatterns: string[];
+    contentMatching: boolean;
+    contentPages: number;
+    staleAfterYears: number;
+}
+
+// Size and freshness of the persistent cut sheet library index
+interface LibraryIndexStatus {
+    fileCount: number;
+    updatedAt: string | null;
+    watching: string[];
+}
+
+// How a filename rule's patterns are written
+type RuleSyntax = 'glob' | 'regex';
+
+// Maps a manufacturer's part numbers onto the filenames that document them
+interface FilenameRule {
+    id: string;
+    manufacturer: string;
+    syntax: RuleSyntax;
+    partPattern: string;
+    filePattern: string;
+    enabled: boolean;
+}
+
+// A library PDF covering a part family or series, e.g. GV2ME*
+interface FamilySheet {
+    id: string;
+    manufacturer: string;
+    pdfPath: string;
+    patterns: string[];
+}
+
+// A discontinued part and the part that replaces it
+interface Supersession {
+    manufacturer: string;
+    partNumber: string;
+    replacementManufacturer: string;
+    replacementPartNumber: string;
+}
+
+// A document required by a kit, e.g. the keypad sheet of a drive package
+interface KitDocument {
+    pdfPath: string;
+    label: string;
+}
+
+// A kit or package part and the documents it needs
+interface KitDefinition {
+    id: string;
+    manufacturer: string;
+    partPattern: string;
+    documents: KitDocument[];
+}
+
+// A document merged under a BOM line in addition to its cut sheet
+interface AttachedDocument {
+    pdfPath: string;
+    fileName: string;
+    source: 'kit' | 'manual';
+    label?: string;
+    missing?: boolean;
+}
+
+// Project details printed on the cover sheet, saved with the session
+interface ProjectMetadata {
+    projectName: string;
+    projectNumber: string;
+    customer: string;
+    engineerOfRecord: string;
+    contractor: string;
+    submittalNumber: string;
+    revision: string;
+    date: string;
+    logoPath?: string;
+}
+
+type CoverField = Exclude<keyof ProjectMetadata, 'logoPath'>;
+
+// How the cover sheet is laid out, the same for every project
+interface CoverSheetLayout {
+    title: string;
+    logoPosition: 'left' | 'center' | 'right' | 'hidden';
+    logoMaxHeight: number;
+    alignment: 'left' | 'center';
+    fields: CoverField[];
+}
+
+// Running stamp drawn on every page of the merged package
+interface PageStampSettings {
+    enabled: boolean;
+    position: 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+    fontSize: number;
+    backing: boolean;
+}
+
+// A PDF chosen by hand for a manufacturer and part number, reused in later jobs
+interface LearnedMatch {
+    key: string;
+    manufacturer: string;
+    partNumber: string;
+    pdfPath: string;
+    fileName: string;
+    learnedAt: string;
+}
+
+// A BOM row rejected by the parser
+interface BomRowIssue {
+    line: number;
+    reason: 'missing-manufacturer' | 'missing-part-number' | 'malformed-quote' | 'column-count';
+    message: string;
+    values?: string[];
+}
+
+// How a part number was found in a filename; "family" is a series sheet covering the part
+type MatchType = 'exact' | 'prefix' | 'family' | 'token' | 'fuzzy';
+
+// Where in a PDF the part number was found; "learned" PDFs were chosen by hand before,
+// "rule" PDFs were named by a filename rule, "kit" PDFs belong to a kit definition
+type MatchSource = 'filename' | 'metadata' | 'pageText' | 'learned' | 'rule' | 'kit';
+
+// A PDF that could satisfy a BOM line
+interface MatchCandidate {
+    fileName: string;
+    pdfPath: string;
+    root?: string;
+    confidence: number;
+    matchType: MatchType;
+    source?: MatchSource;
+    page?: number;
+    rule?: string;
+    family?: string;
+    revision?: string;
+    sheetDate?: string;
+    olderRevision?: boolean;
+    stale?: boolean;
+}
+
+// Match status of a BOM line, with the BOM fields carried into the submittal
+interface BomMatchResult {
+    manufacturer: string;
+    partNumber: string;
+    matched: boolean;
+    pdfPath?: string;
+    fileName?: string;
+    root?: string;
+    confidence?: number;
+    matchType?: MatchType;
+    source?: MatchSource;
+    page?: number;
+    rule?: string;
+    family?: string;
+    revision?: string;
+    sheetDate?: string;
+    stale?: boolean;
+    lowConfidence?: boolean;
+    ambiguous?: boolean;
+    contenders?: MatchCandidate[];
+    alternatives?: MatchCandidate[];
+    quantity?: number;
+    description?: string;
+    tags?: string[];
+    sourceLines?: number[];
+    section?: string;
+    inferredFrom?: string;
+    supersedes?: { manufacturer: string; partNumber: string };
+    attachments?: AttachedDocument[];
+}
+
+// A BOM line as listed in the submittal's table of contents
+interface ProductInfo {
+    manufacturer: string;
+    partNumber: string;
+    fileName?: string;
+    quantity?: number;
+    tags?: string[];
+    description?: string;
+    supersedes?: string;
+    section?: string;
+}
+
 // Define session data interface
 interface SessionData {
     pdfDirectory: string;
     csvFilePath: string;
+    bomSheetName?: string;
+    bomHeaderRowIndex?: number;
+    columnMapping?: ColumnMapping;
+    bomIssues?: BomRowIssue[];
+    bomIssuesAcknowledged?: boolean;
+    consolidateDuplicates?: boolean;
     outputDirectory?: string;
+    projectMetadata?: ProjectMetadata;
     results?: {
         total: number;
         matched: number;
+        ambiguous?: number;
         notFound: number;
     };
-    detailedResults?: Array<{
-        manufacturer: string;
-        partNumber: string;
-        matched: boolean;
-        pdfPath?: string;
-        fileName?: string;
-        overridden?: boolean;
-    }>;
+    detailedResults?: Array<BomMatchResult & { overridden?: boolean }>;
     createdAt: string;
     updatedAt: string;
 }
@@ -38,6 +278,8 @@ interface ElectronAPI {
         pdfFiles?: Array<{
             pdfPath: string;
             fileName: string;
+            root: string;
+            relativePath: string;
         }>;
         directory?: string;
         error?: string;
@@ -57,41 +299,223 @@ interface ElectronAPI {
         error?: string;
     }>;
 
+    listBomSheets: (
+        filePath: string
+    ) => Promise<{
+        success: boolean;
+        sheets?: WorkbookSheetInfo[];
+        error?: string;
+    }>;
+
+    previewBom: (
+        filePath: string,
+        bomOptions?: {
+            sheetName?: string;
+            headerRowIndex?: number;
+        }
+    ) => Promise<{
+        success: boolean;
+        preview?: BomPreview;
+        suggestedMapping?: ColumnMapping;
+        profileName?: string;
+        error?: string;
+    }>;
+
     processBom: (
         csvFilePath: string,
-        pdfDirectory: string
+        pdfDirectory: string,
+        bomOptions?: {
+            sheetName?: string;
+            headerRowIndex?: number;
+            mapping?: ColumnMapping;
+            consolidateDuplicates?: boolean;
+        }
     ) => Promise<{
         success: boolean;
-        results?: Array<{
-            manufacturer: string;
-            partNumber: string;
-            matched: boolean;
-            pdfPath?: string;
-            fileName?: string;
-        }>;
+        results?: BomMatchResult[];
         summary?: {
             total: number;
             matched: number;
+            ambiguous: number;
             notFound: number;
         };
+        issues?: BomRowIssue[];
+        detected?: BomDetection;
         error?: string;
     }>;
 
     // PDF merging operation
     createMergedPdf: (
-        pdfPaths: string[],
-        productInfo?: Array<{
-            manufacturer: string;
-            partNumber: string;
-            fileName?: string;
-        }>,
-        outputDirectory?: string
+        pdfPaths: Array<string | string[]>,
+        productInfo?: ProductInfo[],
+        outputDirectory?: string,
+        project?: ProjectMetadata
     ) => Promise<{
         success: boolean;
         outputPath?: string;
         error?: string;
     }>;
 
+    // Column mapping profiles
+    listMappingProfiles: () => Promise<MappingProfile[]>;
+
+    saveMappingProfile: (
+        name: string,
+        mapping: ColumnMapping,
+        headers: string[]
+    ) => Promise<{
+        success: boolean;
+        error?: string;
+    }>;
+
+    deleteMappingProfile: (name: string) => Promise<boolean>;
+
+    // Matching settings
+    getManufacturerAliases: () => Promise<ManufacturerAliasTable>;
+
+    saveManufacturerAliases: (
+        aliases: ManufacturerAliasTable
+    ) => Promise<{
+        success: boolean;
+        aliases?: ManufacturerAliasTable;
+        error?: string;
+    }>;
+
+    resetManufacturerAliases: () => Promise<ManufacturerAliasTable>;
+
+    getVariantSuffixes: () => Promise<VariantSuffixTable>;
+
+    saveVariantSuffixes: (
+        suffixes: VariantSuffixTable
+    ) => Promise<{
+        success: boolean;
+        suffixes?: VariantSuffixTable;
+        error?: string;
+    }>;
+
+    resetVariantSuffixes: () => Promise<VariantSuffixTable>;
+
+    getManufacturerPatterns: () => Promise<ManufacturerPattern[]>;
+
+    saveManufacturerPatterns: (
+        patterns: ManufacturerPattern[]
+    ) => Promise<{
+        success: boolean;
+        patterns?: ManufacturerPattern[];
+        error?: string;
+    }>;
+
+    resetManufacturerPatterns: () => Promise<ManufacturerPattern[]>;
+
+    getLibrarySettings: () => Promise<LibrarySettings>;
+
+    saveLibrarySettings: (settings: LibrarySettings) => Promise<LibrarySettings>;
+
+    getLibraryIndexStatus: (pdfDirectory: string) => Promise<LibraryIndexStatus>;
+
+    rebuildLibraryIndex: (
+        pdfDirectory: string
+    ) => Promise<{
+        success: boolean;
+        status?: LibraryIndexStatus;
+        error?: string;
+    }>;
+
+    getFilenameRules: () => Promise<FilenameRule[]>;
+
+    saveFilenameRules: (
+        rules: FilenameRule[]
+    ) => Promise<{
+        success: boolean;
+        rules?: FilenameRule[];
+        error?: string;
+    }>;
+
+    testFilenameRule: (
+        rule: FilenameRule,
+        partNumber: string,
+        pdfDirectory: string
+    ) => Promise<{
+        success: boolean;
+        covered?: boolean;
+        files?: Array<{ pdfPath: string; fileName: string; root: string }>;
+        error?: string;
+    }>;
+
+    getFamilySheets: () => Promise<FamilySheet[]>;
+
+    saveFamilySheets: (
+        sheets: FamilySheet[]
+    ) => Promise<{
+        success: boolean;
+        sheets?: FamilySheet[];
+        error?: string;
+    }>;
+
+    getKits: () => Promise<KitDefinition[]>;
+
+    saveKits: (
+        kits: KitDefinition[]
+    ) => Promise<{
+        success: boolean;
+        kits?: KitDefinition[];
+        error?: string;
+    }>;
+
+    getCoverLayout: () => Promise<CoverSheetLayout>;
+
+    saveCoverLayout: (
+        layout: CoverSheetLayout
+    ) => Promise<{
+        success: boolean;
+        layout?: CoverSheetLayout;
+        error?: string;
+    }>;
+
+    getPageStampSettings: () => Promise<PageStampSettings>;
+
+    savePageStampSettings: (
+        settings: PageStampSettings
+    ) => Promise<{
+        success: boolean;
+        settings?: PageStampSettings;
+        error?: string;
+    }>;
+
+    getSupersessions: () => Promise<Supersession[]>;
+
+    saveSupersessions: (
+        supersessions: Supersession[]
+    ) => Promise<{
+        success: boolean;
+        supersessions?: Supersession[];
+        error?: string;
+    }>;
+
+    importSupersessions: (
+        filePath: string
+    ) => Promise<{
+        success: boolean;
+        supersessions?: Supersession[];
+        imported?: number;
+        skippedLines?: number[];
+        error?: string;
+    }>;
+
+    getLearnedMatches: () => Promise<LearnedMatch[]>;
+
+    saveLearnedMatch: (
+        manufacturer: string,
+        partNumber: string,
+        pdfPath: string
+    ) => Promise<{
+        success: boolean;
+        learnedMatch?: LearnedMatch;
+        error?: string;
+    }>;
+
+    deleteLearnedMatch: (key: string) => Promise<boolean>;
+
     // Session management
     saveSession: (
         sessionData: SessionData